@@ -4,13 +4,47 @@
 
 import type { ReporterType } from "../types.js";
 
+/** Reporters accepted by --reporter */
+const REPORTERS: readonly ReporterType[] = [
+  "pretty",
+  "json",
+  "minimal",
+  "github",
+  "junit",
+  "sarif",
+];
+
 export interface ParsedArgs {
   command: string;
   schema: string | undefined;
   output: string | undefined;
+  /** .env file or JSON Schema to build the schema from (init command) */
+  from: string | undefined;
+  /** Keep inferred .env values as examples (init --from) */
+  keepExamples: boolean;
+  /** Output format (generate command) */
+  format: string | undefined;
+  /** ConfigMap (generate --format k8s) or service (compose) name */
+  name: string | undefined;
+  /** Secret name (generate --format k8s) */
+  secretName: string | undefined;
+  /** Manifest namespace (generate --format k8s) */
+  namespace: string | undefined;
   force: boolean;
   strict: boolean;
+  /** Group docs tables by variable name prefix (docs command) */
+  groupByPrefix: boolean;
   reporter: ReporterType | undefined;
+  /** Fail when there are more warnings than this (check command) */
+  maxWarnings: number | undefined;
+  /** Environment name selecting layered .env files (run, check commands) */
+  env: string | undefined;
+  /** Explicit .env files, in precedence order (run, check, generate) */
+  envFiles: string[];
+  /** Command and arguments after `--` (run command) */
+  commandArgs: string[];
+  /** Invalid option values, reported as usage errors */
+  errors: string[];
 }
 
 /**
@@ -21,15 +55,33 @@ export function parseArgs(args: string[]): ParsedArgs {
     command: args[0] ?? "help",
     schema: undefined,
     output: undefined,
+    format: undefined,
+    name: undefined,
+    secretName: undefined,
+    namespace: undefined,
+    from: undefined,
+    keepExamples: false,
     force: false,
     strict: false,
+    groupByPrefix: false,
     reporter: undefined,
+    maxWarnings: undefined,
+    env: undefined,
+    envFiles: [],
+    commandArgs: [],
+    errors: [],
   };
 
   for (let i = 1; i < args.length; i++) {
     const arg = args[i];
     const next = args[i + 1];
 
+    // Everything after `--` belongs to the child command
+    if (arg === "--") {
+      result.commandArgs = args.slice(i + 1);
+      break;
+    }
+
     switch (arg) {
       case "--schema":
       case "-s":
@@ -43,6 +95,36 @@ export function parseArgs(args: string[]): ParsedArgs {
         i++;
         break;
 
+      case "--from":
+        result.from = next;
+        i++;
+        break;
+
+      case "--keep-examples":
+        result.keepExamples = true;
+        break;
+
+      case "--format":
+        result.format = next;
+        i++;
+        break;
+
+      case "--name":
+        result.name = next;
+        i++;
+        break;
+
+      case "--secret-name":
+        result.secretName = next;
+        i++;
+        break;
+
+      case "--namespace":
+      case "-n":
+        result.namespace = next;
+        i++;
+        break;
+
       case "--force":
       case "-f":
         result.force = true;
@@ -52,10 +134,42 @@ export function parseArgs(args: string[]): ParsedArgs {
         result.strict = true;
         break;
 
+      case "--group-by-prefix":
+        result.groupByPrefix = true;
+        break;
+
       case "--reporter":
       case "-r":
-        if (next === "pretty" || next === "json" || next === "minimal") {
-          result.reporter = next;
+        if (REPORTERS.includes(next as ReporterType)) {
+          result.reporter = next as ReporterType;
+        } else {
+          result.errors.push(
+            `Unknown reporter: ${next ?? "(none)"}. Supported reporters: ${REPORTERS.join(", ")}`
+          );
+        }
+        i++;
+        break;
+
+      case "--max-warnings":
+        if (next !== undefined && /^\d+$/.test(next)) {
+          result.maxWarnings = Number(next);
+        } else {
+          result.errors.push(
+            `--max-warnings needs a non-negative integer, got ${next ?? "nothing"}`
+          );
+        }
+        i++;
+        break;
+
+      case "--env":
+      case "-e":
+        result.env = next;
+        i++;
+        break;
+
+      case "--env-file":
+        if (next !== undefined) {
+          result.envFiles.push(next);
         }
         i++;
         break;
@@ -3,21 +3,49 @@
  * Validate environment variables against a schema
  */
 
+import * as fs from "node:fs";
 import * as path from "node:path";
 import type { ReporterType } from "../types.js";
-import { validate, formatErrors } from "../validation/index.js";
+import { validateEnv } from "../create-env.js";
+import { formatErrors } from "../validation/index.js";
+import { flattenSchema } from "../schema/object.js";
 import { loadSchema, getSchemaSearchPaths } from "./schema-loader.js";
 
 interface CheckOptions {
   schema?: string;
   reporter?: ReporterType;
   strict?: boolean;
+  /** Environment name selecting layered .env files to load */
+  env?: string;
+  /** Explicit .env files to load, in precedence order */
+  envFiles?: string[];
+  /** Write the report to this file instead of the console */
+  output?: string;
+  /** Fail when there are more warnings than this */
+  maxWarnings?: number;
 }
 
+/** Reporters that produce a report document even when all variables pass */
+const DOCUMENT_REPORTERS = new Set<ReporterType>(["junit", "sarif"]);
+
 /**
  * Run the check command
+ *
+ * Validates process.env, plus .env files when `env` or `envFiles` is set
+ * so that reports can point at the line defining each bad value.
+ * Warnings are reported alongside errors and only fail the check past
+ * `maxWarnings`
  */
 export async function runCheck(options: CheckOptions = {}): Promise<number> {
+  const reporter = options.reporter ?? "pretty";
+  const isDocument = DOCUMENT_REPORTERS.has(reporter);
+  // Keep stdout parseable when it carries the report
+  const log = (message: string) => {
+    if (!isDocument || options.output !== undefined) {
+      console.log(message);
+    }
+  };
+
   const result = await loadSchema(options.schema);
 
   if (!result) {
@@ -32,23 +60,56 @@ export async function runCheck(options: CheckOptions = {}): Promise<number> {
     return 1;
   }
 
-  console.log(`📋 Using schema: ${path.relative(process.cwd(), result.path)}`);
-  console.log("");
+  log(`📋 Using schema: ${path.relative(process.cwd(), result.path)}`);
+  log("");
 
-  const validation = validate(result.schema, process.env, {
+  const loadDotenv =
+    options.env !== undefined || (options.envFiles?.length ?? 0) > 0;
+  const validation = validateEnv(result.schema, {
     ...(options.strict !== undefined && { strict: options.strict }),
+    ...(loadDotenv && {
+      dotenv: true,
+      dotenvExpand: true,
+      dotenvDiagnostics: "error" as const,
+      ...(options.env !== undefined && { environment: options.env }),
+      ...(options.envFiles?.length && { dotenvPath: options.envFiles }),
+    }),
   });
 
-  if (validation.success) {
-    console.log("✅ All environment variables are valid!");
-    console.log(`   ${Object.keys(result.schema).length} variables checked`);
-    return 0;
+  const errors = validation.success ? validation.warnings : validation.errors;
+  if (errors.length > 0 || isDocument) {
+    const report = formatErrors(errors, reporter, result.schema);
+
+    if (options.output !== undefined) {
+      fs.writeFileSync(
+        path.resolve(process.cwd(), options.output),
+        `${report}\n`,
+        "utf-8"
+      );
+      log(`📝 Wrote ${reporter} report to ${options.output}`);
+    } else if (isDocument || reporter === "github") {
+      console.log(report);
+    } else {
+      console.error(report);
+    }
+  }
+
+  if (!validation.success) {
+    return 1;
+  }
+
+  const warningCount = validation.warnings.length;
+  if (options.maxWarnings !== undefined && warningCount > options.maxWarnings) {
+    console.error(
+      `❌ Too many warnings: ${warningCount} (max ${options.maxWarnings})`
+    );
+    return 1;
   }
 
-  const formatted = formatErrors(
-    validation.errors,
-    options.reporter ?? "pretty"
-  );
-  console.error(formatted);
-  return 1;
+  log("✅ All environment variables are valid!");
+  log(`   ${flattenSchema(result.schema).length} variables checked`);
+  if (warningCount > 0) {
+    log(`   ${warningCount} warning${warningCount === 1 ? "" : "s"}`);
+  }
+  return 0;
 }
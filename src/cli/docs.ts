@@ -0,0 +1,56 @@
+/**
+ * EnvProof CLI - Docs Command
+ * Generate Markdown reference docs from schema
+ */
+
+import * as path from "node:path";
+import { writeMarkdownDocs } from "../generator/index.js";
+import { flattenSchema } from "../schema/object.js";
+import { loadSchema, getSchemaSearchPaths } from "./schema-loader.js";
+
+interface DocsOptions {
+  schema?: string;
+  output?: string;
+  force?: boolean;
+  groupByPrefix?: boolean;
+}
+
+/**
+ * Run the docs command
+ */
+export async function runDocs(options: DocsOptions = {}): Promise<number> {
+  const result = await loadSchema(options.schema);
+
+  if (!result) {
+    console.error("❌ Could not find env schema file.");
+    console.error("");
+    console.error("Searched for:");
+    for (const searchPath of getSchemaSearchPaths(options.schema)) {
+      console.error(`  - ${searchPath}`);
+    }
+    console.error("");
+    console.error("Create a schema file or specify with --schema <path>");
+    return 1;
+  }
+
+  console.log(`📋 Using schema: ${path.relative(process.cwd(), result.path)}`);
+
+  const writeResult = writeMarkdownDocs(result.schema, {
+    ...(options.output !== undefined && { output: options.output }),
+    ...(options.force !== undefined && { force: options.force }),
+    ...(options.groupByPrefix !== undefined && {
+      groupByPrefix: options.groupByPrefix,
+    }),
+  });
+
+  if (writeResult.success) {
+    console.log(`✅ ${writeResult.message}`);
+    console.log(
+      `   ${flattenSchema(result.schema).length} variables documented`
+    );
+    return 0;
+  }
+
+  console.error(`❌ ${writeResult.message}`);
+  return 1;
+}
@@ -1,24 +1,82 @@
 /**
  * EnvProof CLI - Generate Command
- * Generate .env.example from schema
+ * Generate .env.example and other formats from schema
  */
 
+import * as fs from "node:fs";
 import * as path from "node:path";
-import { writeExampleFile } from "../generator/index.js";
+import type { EnvSchema } from "../types.js";
+import {
+  writeExampleFile,
+  toJsonSchema,
+  generateKubernetesManifests,
+  generateComposeEnvironment,
+  generateDockerfileEnv,
+} from "../generator/index.js";
+import { flattenSchema } from "../schema/object.js";
+import { loadDotenvFiles } from "../dotenv.js";
 import { loadSchema, getSchemaSearchPaths } from "./schema-loader.js";
 
 interface GenerateOptions {
   schema?: string;
   output?: string;
   force?: boolean;
+  /** Output format (default: env) */
+  format?: string;
+  /** .env files supplying values, in precedence order (k8s format) */
+  envFiles?: string[];
+  /** ConfigMap name (k8s format) or service name (compose format) */
+  name?: string;
+  /** Secret name (k8s format) */
+  secretName?: string;
+  /** Manifest namespace (k8s format) */
+  namespace?: string;
 }
 
+/** Formats besides .env.example, with default output paths */
+const FORMATS: Record<
+  string,
+  {
+    output: string;
+    render: (schema: EnvSchema, options: GenerateOptions) => string;
+  }
+> = {
+  "json-schema": {
+    output: "env.schema.json",
+    render: (schema) => `${JSON.stringify(toJsonSchema(schema), null, 2)}\n`,
+  },
+  k8s: {
+    output: "env.k8s.yaml",
+    render: renderKubernetes,
+  },
+  compose: {
+    output: "compose.env.yaml",
+    render: (schema, options) =>
+      generateComposeEnvironment(schema, {
+        ...(options.name !== undefined && { service: options.name }),
+      }),
+  },
+  dockerfile: {
+    output: "Dockerfile.env",
+    render: (schema) => generateDockerfileEnv(schema),
+  },
+};
+
 /**
  * Run the generate command
  */
 export async function runGenerate(
   options: GenerateOptions = {}
 ): Promise<number> {
+  const format = options.format ?? "env";
+  if (format !== "env" && FORMATS[format] === undefined) {
+    console.error(`❌ Unknown format: ${format}`);
+    console.error(
+      `   Supported formats: ${["env", ...Object.keys(FORMATS)].join(", ")}`
+    );
+    return 1;
+  }
+
   const result = await loadSchema(options.schema);
 
   if (!result) {
@@ -35,17 +93,88 @@ export async function runGenerate(
 
   console.log(`📋 Using schema: ${path.relative(process.cwd(), result.path)}`);
 
-  const writeResult = writeExampleFile(result.schema, {
-    ...(options.output !== undefined && { output: options.output }),
-    ...(options.force !== undefined && { force: options.force }),
-  });
+  for (const envFile of options.envFiles ?? []) {
+    if (!fs.existsSync(path.resolve(process.cwd(), envFile))) {
+      console.error(`❌ .env file not found: ${envFile}`);
+      return 1;
+    }
+  }
+
+  const formatter = FORMATS[format];
+  const writeResult = formatter
+    ? writeGeneratedFile(
+        options.output ?? formatter.output,
+        formatter.render(result.schema, options),
+        options.force
+      )
+    : writeExampleFile(result.schema, {
+        ...(options.output !== undefined && { output: options.output }),
+        ...(options.force !== undefined && { force: options.force }),
+      });
 
   if (writeResult.success) {
     console.log(`✅ ${writeResult.message}`);
-    console.log(`   ${Object.keys(result.schema).length} variables documented`);
+    console.log(
+      `   ${flattenSchema(result.schema).length} variables documented`
+    );
     return 0;
   }
 
   console.error(`❌ ${writeResult.message}`);
   return 1;
 }
+
+/**
+ * Render Kubernetes manifests with values from the given .env files,
+ * followed by the Deployment `envFrom` snippet as a comment
+ */
+function renderKubernetes(schema: EnvSchema, options: GenerateOptions): string {
+  const { manifests, envFrom } = generateKubernetesManifests(
+    schema,
+    loadDotenvFiles(...(options.envFiles ?? [])),
+    {
+      ...(options.name !== undefined && { name: options.name }),
+      ...(options.secretName !== undefined && {
+        secretName: options.secretName,
+      }),
+      ...(options.namespace !== undefined && { namespace: options.namespace }),
+    }
+  );
+
+  const snippet = envFrom
+    .trimEnd()
+    .split("\n")
+    .map((line) => `#   ${line}`);
+  return [
+    manifests,
+    "# Load into the Deployment's container spec:",
+    ...snippet,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Write generated content, refusing to overwrite without force
+ */
+function writeGeneratedFile(
+  outputPath: string,
+  content: string,
+  force = false
+): { success: boolean; message: string } {
+  const absolutePath = path.resolve(process.cwd(), outputPath);
+
+  if (fs.existsSync(absolutePath) && !force) {
+    return {
+      success: false,
+      message: `File already exists: ${outputPath}. Use --force to overwrite.`,
+    };
+  }
+
+  try {
+    fs.writeFileSync(absolutePath, content, "utf-8");
+    return { success: true, message: `Generated ${outputPath}` };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return { success: false, message: `Failed to write file: ${message}` };
+  }
+}
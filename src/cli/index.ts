@@ -6,6 +6,9 @@
 import { runCheck } from "./check.js";
 import { runGenerate } from "./generate.js";
 import { runInit } from "./init.js";
+import { runRun } from "./run.js";
+import { runDocs } from "./docs.js";
+import { runTypes } from "./types.js";
 import { parseArgs } from "./args.js";
 import { getCliVersion } from "./version.js";
 
@@ -19,26 +22,55 @@ USAGE:
 
 COMMANDS:
   check      Validate environment variables against schema
-  generate   Generate .env.example from schema
+  generate   Generate .env.example (or another --format) from schema
+  docs       Generate Markdown reference docs into README.md
+  types      Generate env.d.ts typing process.env from schema
   init       Scaffold env.config.ts and .env.example
+  run        Validate, then run a command with the resolved environment
   help       Show this help message
   version    Show version number
 
 OPTIONS:
   --schema <path>    Path to schema file (default: env.config.ts)
-  --output <path>    Output path for .env.example (default: .env.example)
+  --output <path>    Output path (default: .env.example, README.md for docs,
+                     env.d.ts for types; report file for check)
+  --format <format>  Generate format: env, json-schema, k8s, compose,
+                     dockerfile (default: env)
+  --from <path>      .env file or JSON Schema to build env.config.ts from
+                     (for init)
+  --keep-examples    Keep non-secret .env values as examples (for init --from)
   --force            Overwrite existing files
   --strict           Fail on unknown variables (for check command)
-  --reporter <type>  Error output format: pretty, json, minimal
+  --group-by-prefix  Split docs tables by variable prefix (for docs command)
+  --reporter <type>  Error output format: pretty, json, minimal, github,
+                     junit, sarif
+  --max-warnings <n> Fail when there are more than n warnings (for check)
+  --env <name>       Environment for layered .env files (for run, check)
+  --env-file <path>  .env file to load, repeatable (for run, check,
+                     generate k8s)
+  --name <name>      ConfigMap (k8s) or service (compose) name
+  --secret-name <n>  Secret name (for generate --format k8s)
+  --namespace <ns>   Manifest namespace (for generate --format k8s)
 
 EXAMPLES:
   envproof check
   envproof check --schema ./config/env.ts
   envproof check --strict
+  envproof check --max-warnings 0
+  envproof check --env-file .env --reporter sarif --output envproof.sarif
   envproof generate
   envproof generate --output .env.template --force
+  envproof generate --format json-schema --output env.schema.json
+  envproof generate --format k8s --env-file .env.production --name api-env
+  envproof generate --format compose --name api
+  envproof docs --output docs/configuration.md --group-by-prefix
+  envproof types --output src/env.d.ts
   envproof init
   envproof init --schema ./config/env.ts --output .env.example
+  envproof init --from .env.production
+  envproof init --from config.schema.json
+  envproof run -- node server.js
+  envproof run --env production --schema ./config/env.ts -- node server.js
 
 For more information, visit: https://github.com/jayantpathariya/envproof
 `;
@@ -50,6 +82,14 @@ async function main(): Promise<void> {
   const args = process.argv.slice(2);
   const parsed = parseArgs(args);
 
+  if (parsed.errors.length > 0) {
+    for (const error of parsed.errors) {
+      console.error(`❌ ${error}`);
+    }
+    console.error("   Run envproof --help for usage.");
+    process.exit(1);
+  }
+
   let exitCode = 0;
 
   switch (parsed.command) {
@@ -57,6 +97,12 @@ async function main(): Promise<void> {
       exitCode = await runCheck({
         ...(parsed.schema !== undefined && { schema: parsed.schema }),
         ...(parsed.reporter !== undefined && { reporter: parsed.reporter }),
+        ...(parsed.env !== undefined && { env: parsed.env }),
+        ...(parsed.output !== undefined && { output: parsed.output }),
+        ...(parsed.maxWarnings !== undefined && {
+          maxWarnings: parsed.maxWarnings,
+        }),
+        envFiles: parsed.envFiles,
         strict: parsed.strict,
       });
       break;
@@ -64,6 +110,32 @@ async function main(): Promise<void> {
     case "generate":
     case "gen":
       exitCode = await runGenerate({
+        ...(parsed.schema !== undefined && { schema: parsed.schema }),
+        ...(parsed.output !== undefined && { output: parsed.output }),
+        ...(parsed.format !== undefined && { format: parsed.format }),
+        ...(parsed.name !== undefined && { name: parsed.name }),
+        ...(parsed.secretName !== undefined && {
+          secretName: parsed.secretName,
+        }),
+        ...(parsed.namespace !== undefined && {
+          namespace: parsed.namespace,
+        }),
+        envFiles: parsed.envFiles,
+        force: parsed.force,
+      });
+      break;
+
+    case "docs":
+      exitCode = await runDocs({
+        ...(parsed.schema !== undefined && { schema: parsed.schema }),
+        ...(parsed.output !== undefined && { output: parsed.output }),
+        force: parsed.force,
+        groupByPrefix: parsed.groupByPrefix,
+      });
+      break;
+
+    case "types":
+      exitCode = await runTypes({
         ...(parsed.schema !== undefined && { schema: parsed.schema }),
         ...(parsed.output !== undefined && { output: parsed.output }),
         force: parsed.force,
@@ -74,10 +146,23 @@ async function main(): Promise<void> {
       exitCode = runInit({
         ...(parsed.schema !== undefined && { schema: parsed.schema }),
         ...(parsed.output !== undefined && { output: parsed.output }),
+        ...(parsed.from !== undefined && { from: parsed.from }),
+        keepExamples: parsed.keepExamples,
         force: parsed.force,
       });
       break;
 
+    case "run":
+      exitCode = await runRun({
+        ...(parsed.schema !== undefined && { schema: parsed.schema }),
+        ...(parsed.reporter !== undefined && { reporter: parsed.reporter }),
+        ...(parsed.env !== undefined && { env: parsed.env }),
+        envFiles: parsed.envFiles,
+        strict: parsed.strict,
+        command: parsed.commandArgs,
+      });
+      break;
+
     case "version":
     case "-v":
     case "--version":
@@ -5,13 +5,34 @@
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import type { EnvSchema, JsonSchemaDocument } from "../types.js";
 import * as e from "../schema/index.js";
-import { writeExampleFile } from "../generator/index.js";
+import {
+  writeExampleFile,
+  fromJsonSchema,
+  generateSchemaCode,
+  inferSchema,
+  inferSchemaCode,
+} from "../generator/index.js";
+import { parseDotenv } from "../dotenv.js";
 
 interface InitOptions {
   schema?: string;
   output?: string;
   force?: boolean;
+  /**
+   * File to build the schema from instead of the starter template:
+   * a JSON Schema document (`.json`) or a .env file to infer types from
+   */
+  from?: string;
+  /** Keep non-secret values of a .env `from` file as examples */
+  keepExamples?: boolean;
+}
+
+/** Schema source code plus the runtime schema it evaluates to */
+interface SchemaTemplate {
+  code: string;
+  schema: EnvSchema;
 }
 
 const DEFAULT_SCHEMA_PATH = "env.config.ts";
@@ -42,6 +63,36 @@ function createTemplateSchema() {
   };
 }
 
+/**
+ * Build the schema template from a JSON Schema document or a .env file
+ * Conversion warnings are printed and kept as comments in the code
+ *
+ * @param examples - Keep the values of a .env file as examples
+ */
+function readTemplateFrom(from: string, examples: boolean): SchemaTemplate {
+  const content = fs.readFileSync(path.resolve(process.cwd(), from), "utf-8");
+
+  if (path.extname(from) !== ".json") {
+    const values = parseDotenv(content);
+    if (Object.keys(values).length === 0) {
+      throw new Error("No variables found");
+    }
+    return {
+      code: inferSchemaCode(values, { examples }),
+      schema: inferSchema(values, { examples }),
+    };
+  }
+
+  const document = JSON.parse(content) as JsonSchemaDocument;
+  const { code, warnings } = generateSchemaCode(document);
+
+  for (const warning of warnings) {
+    console.warn(`⚠️  ${warning.variable ?? from}: ${warning.message}`);
+  }
+
+  return { code, schema: fromJsonSchema(document).schema };
+}
+
 /**
  * Run the init command.
  */
@@ -62,16 +113,27 @@ export function runInit(options: InitOptions = {}): number {
     return 1;
   }
 
+  let template: SchemaTemplate;
+  try {
+    template = options.from
+      ? readTemplateFrom(options.from, options.keepExamples ?? false)
+      : { code: SCHEMA_TEMPLATE, schema: createTemplateSchema() };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`❌ Failed to convert ${options.from}: ${message}`);
+    return 1;
+  }
+
   try {
     fs.mkdirSync(path.dirname(schemaPath), { recursive: true });
-    fs.writeFileSync(schemaPath, SCHEMA_TEMPLATE, "utf-8");
+    fs.writeFileSync(schemaPath, template.code, "utf-8");
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unknown error";
     console.error(`❌ Failed to write schema file: ${message}`);
     return 1;
   }
 
-  const writeResult = writeExampleFile(createTemplateSchema(), {
+  const writeResult = writeExampleFile(template.schema, {
     output: examplePath,
     force: true,
   });
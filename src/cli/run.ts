@@ -0,0 +1,169 @@
+/**
+ * EnvProof CLI - Run Command
+ * Validate the environment, then start a child process with it
+ */
+
+import { spawn } from "node:child_process";
+import * as os from "node:os";
+import * as path from "node:path";
+import type { EnvSchema, ReporterType } from "../types.js";
+import {
+  validate,
+  formatErrors,
+  addErrorLocations,
+  getDefaultValue,
+} from "../validation/index.js";
+import { resolveSource } from "../create-env.js";
+import { formatEnvValue } from "../generator/index.js";
+import { flattenSchema } from "../schema/object.js";
+import { loadSchema, getSchemaSearchPaths } from "./schema-loader.js";
+
+interface RunOptions {
+  schema?: string;
+  reporter?: ReporterType;
+  strict?: boolean;
+  /** Environment name selecting layered .env files (default: NODE_ENV) */
+  env?: string;
+  /** Explicit .env files, overriding the layered defaults */
+  envFiles?: string[];
+  /** Command and arguments to run */
+  command: string[];
+}
+
+/** Signals passed on to the child process */
+const FORWARDED_SIGNALS: NodeJS.Signals[] = [
+  "SIGINT",
+  "SIGTERM",
+  "SIGHUP",
+  "SIGQUIT",
+];
+
+/**
+ * Run the run command
+ * Resolves with the child's exit code, or 128 + signal number when the
+ * child was killed by a signal
+ */
+export async function runRun(options: RunOptions): Promise<number> {
+  const [command, ...commandArgs] = options.command;
+
+  if (command === undefined) {
+    console.error("❌ No command given.");
+    console.error("");
+    console.error("Usage: envproof run [options] -- <command> [args...]");
+    return 1;
+  }
+
+  const result = await loadSchema(options.schema);
+
+  if (!result) {
+    console.error("❌ Could not find env schema file.");
+    console.error("");
+    console.error("Searched for:");
+    for (const searchPath of getSchemaSearchPaths(options.schema)) {
+      console.error(`  - ${searchPath}`);
+    }
+    console.error("");
+    console.error("Create a schema file or specify with --schema <path>");
+    return 1;
+  }
+
+  const environment = options.env ?? process.env.NODE_ENV;
+  const { source, errors, warnings, locations } = resolveSource({
+    dotenv: true,
+    dotenvExpand: true,
+    dotenvDiagnostics: "warn",
+    ...(environment !== undefined && { environment }),
+    ...(options.envFiles?.length && { dotenvPath: options.envFiles }),
+  });
+
+  const validation = validate(result.schema, source, {
+    ...(options.strict !== undefined && { strict: options.strict }),
+    ...(environment !== undefined && { environment }),
+  });
+  const allErrors = addErrorLocations(
+    [...errors, ...(validation.success ? [] : validation.errors)],
+    locations
+  );
+
+  if (allErrors.length > 0) {
+    console.error(
+      `📋 Using schema: ${path.relative(process.cwd(), result.path)}`
+    );
+    console.error(
+      formatErrors(allErrors, options.reporter ?? "pretty", result.schema)
+    );
+    return 1;
+  }
+
+  if (warnings.length > 0) {
+    console.error(
+      formatErrors(warnings, options.reporter ?? "pretty", result.schema)
+    );
+  }
+
+  return spawnChild(command, commandArgs, {
+    ...source,
+    ...getDefaultValues(result.schema, source, environment),
+  });
+}
+
+/**
+ * Collect schema defaults for unset variables, formatted as strings
+ * `.defaultFor()` defaults of the environment apply as in createEnv
+ */
+function getDefaultValues(
+  schema: EnvSchema,
+  source: Record<string, string | undefined>,
+  environment: string | undefined
+): Record<string, string> {
+  const defaults: Record<string, string> = {};
+
+  for (const [name, fieldSchema] of flattenSchema(schema)) {
+    const defaultValue = getDefaultValue(fieldSchema, environment);
+    if (defaultValue !== undefined && !source[name]) {
+      defaults[name] = formatEnvValue(fieldSchema, defaultValue);
+    }
+  }
+
+  return defaults;
+}
+
+/**
+ * Spawn the child with inherited stdio, forwarding signals to it
+ */
+function spawnChild(
+  command: string,
+  args: string[],
+  env: Record<string, string | undefined>
+): Promise<number> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, { env, stdio: "inherit" });
+
+    const forward = (signal: NodeJS.Signals) => {
+      child.kill(signal);
+    };
+    for (const signal of FORWARDED_SIGNALS) {
+      process.on(signal, forward);
+    }
+    const cleanup = () => {
+      for (const signal of FORWARDED_SIGNALS) {
+        process.off(signal, forward);
+      }
+    };
+
+    child.on("error", (error) => {
+      cleanup();
+      console.error(`❌ Could not start "${command}": ${error.message}`);
+      resolve(127);
+    });
+
+    child.on("exit", (code, signal) => {
+      cleanup();
+      if (signal) {
+        resolve(128 + (os.constants.signals[signal] ?? 0));
+        return;
+      }
+      resolve(code ?? 0);
+    });
+  });
+}
@@ -0,0 +1,50 @@
+/**
+ * EnvProof CLI - Types Command
+ * Generate a process.env declaration file from schema
+ */
+
+import * as path from "node:path";
+import { writeTypeDeclarations } from "../generator/index.js";
+import { flattenSchema } from "../schema/object.js";
+import { loadSchema, getSchemaSearchPaths } from "./schema-loader.js";
+
+interface TypesOptions {
+  schema?: string;
+  output?: string;
+  force?: boolean;
+}
+
+/**
+ * Run the types command
+ */
+export async function runTypes(options: TypesOptions = {}): Promise<number> {
+  const result = await loadSchema(options.schema);
+
+  if (!result) {
+    console.error("❌ Could not find env schema file.");
+    console.error("");
+    console.error("Searched for:");
+    for (const searchPath of getSchemaSearchPaths(options.schema)) {
+      console.error(`  - ${searchPath}`);
+    }
+    console.error("");
+    console.error("Create a schema file or specify with --schema <path>");
+    return 1;
+  }
+
+  console.log(`📋 Using schema: ${path.relative(process.cwd(), result.path)}`);
+
+  const writeResult = writeTypeDeclarations(result.schema, {
+    ...(options.output !== undefined && { output: options.output }),
+    ...(options.force !== undefined && { force: options.force }),
+  });
+
+  if (writeResult.success) {
+    console.log(`✅ ${writeResult.message}`);
+    console.log(`   ${flattenSchema(result.schema).length} variables typed`);
+    return 0;
+  }
+
+  console.error(`❌ ${writeResult.message}`);
+  return 1;
+}
@@ -11,10 +11,31 @@ import type {
   ValidationResult,
   CrossFieldValidationResult,
   CrossFieldValidationIssue,
+  DotenvDiagnostic,
+  DotenvLocation,
+  ValidationError,
+  AnySchemaDefinition,
+  RequiredCondition,
+  ClientServerEnvOptions,
 } from "./types.js";
 import { validate, handleValidationFailure } from "./validation/engine.js";
-import { createCrossFieldError } from "./validation/errors.js";
-import { loadDotenvFiles, expandDotenvVars } from "./dotenv.js";
+import {
+  createCrossFieldError,
+  createDotenvError,
+  createForbiddenError,
+  markSecret,
+  asWarning,
+  addErrorLocations,
+} from "./validation/errors.js";
+import {
+  loadDotenvFilesWithDiagnostics,
+  expandDotenvVarsWithErrors,
+} from "./dotenv.js";
+import { flattenSchema, mapSchema } from "./schema/object.js";
+import type { ActiveProfile } from "./profiles.js";
+import { findProfile, getDotenvNames } from "./profiles.js";
+import type { SecretResolution } from "./resolvers.js";
+import { resolveSecretReferences } from "./resolvers.js";
 
 /**
  * Create and validate a typed environment object
@@ -31,6 +52,13 @@ import { loadDotenvFiles, expandDotenvVars } from "./dotenv.js";
  *
  * // env is fully typed!
  * console.log(env.PORT); // number
+ *
+ * // Server and client variables for frontend frameworks
+ * const appEnv = createEnv({
+ *   server: { DATABASE_URL: e.url() },
+ *   client: { NEXT_PUBLIC_API_URL: e.url() },
+ *   clientPrefix: 'NEXT_PUBLIC_',
+ * });
  * ```
  */
 export function createEnv<T extends EnvSchema>(
@@ -41,23 +69,250 @@ export function createEnv<T extends EnvSchema>(
   schema: T,
   options: Omit<EnvOptions, "onError"> & { onError: "return" }
 ): ValidationResult<InferEnv<T>>;
+export function createEnv<TServer extends EnvSchema, TClient extends EnvSchema>(
+  config: ClientServerEnvOptions<TServer, TClient>
+): InferEnv<TServer> & InferEnv<TClient>;
 export function createEnv<T extends EnvSchema>(
-  schema: T,
+  schema: T | ClientServerEnvOptions<EnvSchema, EnvSchema>,
   options: EnvOptions = {}
 ): InferEnv<T> | ValidationResult<InferEnv<T>> {
-  const source = resolveSource(options);
+  if (isClientServerConfig(schema)) {
+    return createClientServerEnv(schema) as InferEnv<T>;
+  }
 
-  // Apply environment-specific schema modifications
-  const modifiedSchema = applyEnvironmentRules(schema, options);
+  const resolved = resolveSource(options);
+  const result = runValidation(schema, resolved.source, options, resolved);
+  return finalizeResult(result, options, schema);
+}
+
+/**
+ * Check whether createEnv was given server and client schemas
+ * A schema never has a string value, so `clientPrefix` tells them apart
+ */
+function isClientServerConfig(
+  value: EnvSchema | ClientServerEnvOptions<EnvSchema, EnvSchema>
+): value is ClientServerEnvOptions<EnvSchema, EnvSchema> {
+  return typeof value.clientPrefix === "string";
+}
+
+/**
+ * Validate server and client variables
+ * On the server both sets are validated. On the client only the client
+ * set is, and reading a server variable or group throws instead of
+ * returning undefined
+ */
+function createClientServerEnv(
+  config: ClientServerEnvOptions<EnvSchema, EnvSchema>
+): Record<string, unknown> {
+  const {
+    server,
+    client,
+    clientPrefix,
+    runtimeEnv,
+    isServer = !("window" in globalThis),
+    ...options
+  } = config;
+
+  // Variable names with group prefixes applied
+  const serverNames = flattenSchema(server).map(([name]) => name);
+  const clientNames = flattenSchema(client).map(([name]) => name);
+  assertClientPrefix(serverNames, clientNames, clientPrefix);
+
+  const source =
+    runtimeEnv ?? (typeof process !== "undefined" ? process.env : {});
+  const env = createEnv(isServer ? { ...server, ...client } : client, {
+    ...options,
+    source,
+  });
+
+  if (isServer) {
+    return env;
+  }
+
+  const clientKeys = new Set([...Object.keys(client), ...clientNames]);
+  const serverOnly = new Set(
+    [...Object.keys(server), ...serverNames].filter(
+      (key) => !clientKeys.has(key)
+    )
+  );
+
+  return new Proxy(env, {
+    get(target, key, receiver) {
+      if (typeof key === "string" && serverOnly.has(key)) {
+        throw new Error(
+          `Attempted to access server-only variable "${key}" on the client. ` +
+            `Only variables in "client" (prefixed with ${clientPrefix}) are available in the browser`
+        );
+      }
+      return Reflect.get(target, key, receiver);
+    },
+  });
+}
+
+/**
+ * Check that client variables, and only those, carry the client prefix
+ * Server variables with the prefix would be inlined into client bundles
+ */
+function assertClientPrefix(
+  serverNames: string[],
+  clientNames: string[],
+  clientPrefix: string
+): void {
+  const unprefixed = clientNames.filter(
+    (name) => !name.startsWith(clientPrefix)
+  );
+  if (unprefixed.length > 0) {
+    throw new Error(
+      `Client variables must start with "${clientPrefix}": ${unprefixed.join(", ")}`
+    );
+  }
+
+  const leaking = serverNames.filter((name) => name.startsWith(clientPrefix));
+  if (leaking.length > 0) {
+    throw new Error(
+      `Server variables must not start with "${clientPrefix}": ${leaking.join(", ")}`
+    );
+  }
+}
+
+/**
+ * Create and validate a typed environment object, resolving secret
+ * references such as `secret://payments/stripe_key` first
+ *
+ * Each resolver handles one URI scheme. Resolved values are validated like
+ * any other value and are always treated as secrets
+ *
+ * @example
+ * ```typescript
+ * import { createEnvAsync, fileResolver, e } from 'envproof';
+ *
+ * // STRIPE_KEY=secret://payments/stripe_key
+ * const env = await createEnvAsync(
+ *   { STRIPE_KEY: e.string().startsWith("sk_") },
+ *   { resolvers: { secret: fileResolver("./secrets.json") } }
+ * );
+ * ```
+ */
+export function createEnvAsync<T extends EnvSchema>(
+  schema: T,
+  options?: Omit<EnvOptions, "onError"> & { onError?: "throw" | "exit" }
+): Promise<InferEnv<T>>;
+export function createEnvAsync<T extends EnvSchema>(
+  schema: T,
+  options: Omit<EnvOptions, "onError"> & { onError: "return" }
+): Promise<ValidationResult<InferEnv<T>>>;
+export async function createEnvAsync<T extends EnvSchema>(
+  schema: T,
+  options: EnvOptions = {}
+): Promise<InferEnv<T> | ValidationResult<InferEnv<T>>> {
+  const resolved = resolveSource(options);
+  const variables = flattenSchema(schema, options.prefix ?? "").map(
+    ([name]) => name
+  );
+
+  const resolution = await resolveSecretReferences(
+    variables,
+    resolved.source,
+    options.resolvers ?? {}
+  );
+
+  const result = runValidation(
+    schema,
+    resolution.source,
+    options,
+    resolved,
+    resolution.resolved
+  );
+  return finalizeResult(
+    applySecretResolution(result, resolution, options),
+    options,
+    schema
+  );
+}
 
-  const baseResult = validate(modifiedSchema, source, options);
+/**
+ * Validate a source against a schema, applying environment rules, the
+ * active profile and cross-field validation
+ * Errors found while loading the source are reported first, and errors
+ * for values loaded from .env files point at their assignment. Warnings
+ * of a successful validation go to `onWarning`
+ *
+ * @param secretKeys - Resolved variables, masked like `.secret()` ones
+ */
+function runValidation<T extends EnvSchema>(
+  schema: T,
+  source: Record<string, string | undefined>,
+  options: EnvOptions,
+  {
+    errors: sourceErrors,
+    warnings: sourceWarnings,
+    locations,
+  }: Omit<ResolvedSource, "source">,
+  secretKeys?: ReadonlySet<string>
+): ValidationResult<InferEnv<T>> {
+  const profile = findProfile(options);
+
+  // Apply environment-specific schema modifications
+  const modifiedSchema = applyProfileRules(
+    applyEnvironmentRules(schema, options),
+    profile
+  );
+
+  const baseResult = validate(
+    modifiedSchema,
+    source,
+    applyProfileOptions(options, profile),
+    secretKeys
+  );
   const result = applyCrossFieldValidation(baseResult, options.crossValidate);
+  const loadErrors = [
+    ...sourceErrors,
+    ...findForbiddenVariables(source, profile),
+  ];
 
+  if (loadErrors.length === 0 && result.success) {
+    if (sourceWarnings.length === 0 && result.warnings.length === 0) {
+      return result;
+    }
+    const warnings = addErrorProfile(
+      addErrorLocations(
+        [...sourceWarnings, ...result.warnings],
+        locations,
+        options.stripPrefix ? options.prefix : undefined
+      ),
+      profile
+    );
+    options.onWarning?.(warnings);
+    return { ...result, warnings };
+  }
+
+  const errors = [...loadErrors, ...(result.success ? [] : result.errors)];
+  return {
+    success: false,
+    errors: addErrorProfile(
+      addErrorLocations(
+        errors,
+        locations,
+        options.stripPrefix ? options.prefix : undefined
+      ),
+      profile
+    ),
+  };
+}
+
+/**
+ * Turn a validation result into createEnv's return value based on onError
+ */
+function finalizeResult<T>(
+  result: ValidationResult<T>,
+  options: EnvOptions,
+  schema: EnvSchema
+): T | ValidationResult<T> {
   if (!result.success) {
     if (options.onError === "return") {
       return result;
     }
-    handleValidationFailure(result.errors, options);
+    handleValidationFailure(result.errors, options, schema);
   }
 
   // Type narrowing: if we reach here, result.success is true and data exists
@@ -65,25 +320,69 @@ export function createEnv<T extends EnvSchema>(
     throw new Error("Validation succeeded but no data returned");
   }
 
-  const frozenData = Object.freeze(result.data) as InferEnv<T>;
+  const frozenData = Object.freeze(result.data) as T;
 
   if (options.onError === "return") {
-    return { success: true, data: frozenData, errors: [] };
+    return {
+      success: true,
+      data: frozenData,
+      errors: [],
+      warnings: result.warnings,
+    };
   }
 
   return frozenData;
 }
 
 /**
- * Clone a schema with modified optional flag
+ * Merge secret resolution outcomes into a validation result
+ * Resolver failures replace errors for the same variable, and errors for
+ * resolved variables are masked as secrets
+ */
+function applySecretResolution<T>(
+  result: ValidationResult<T>,
+  resolution: SecretResolution,
+  options: EnvOptions
+): ValidationResult<T> {
+  const { prefix, stripPrefix } = options;
+  const toReported = (name: string) =>
+    stripPrefix && prefix && name.startsWith(prefix)
+      ? name.slice(prefix.length)
+      : name;
+
+  const resolverErrors = resolution.errors.map((error) => ({
+    ...error,
+    variable: toReported(error.variable),
+  }));
+  const failed = new Set(resolverErrors.map((error) => error.variable));
+  const resolved = new Set([...resolution.resolved].map(toReported));
+
+  const validationErrors = result.success
+    ? []
+    : result.errors
+        .filter((error) => !failed.has(error.variable))
+        .map((error) =>
+          resolved.has(error.variable) ? markSecret(error) : error
+        );
+
+  const errors = [...resolverErrors, ...validationErrors];
+  if (errors.length === 0) {
+    return result;
+  }
+
+  return { success: false, errors };
+}
+
+/**
+ * Clone a schema with a modified definition
  */
-function cloneSchemaWithOptional(
+function cloneSchemaWith(
   schema: AnySchema,
-  isOptional: boolean
+  updates: Partial<AnySchemaDefinition>
 ): AnySchema {
   const cloned = Object.create(Object.getPrototypeOf(schema));
   Object.assign(cloned, schema);
-  cloned._def = { ...schema._def, isOptional };
+  cloned._def = { ...schema._def, ...updates };
   return cloned;
 }
 
@@ -111,12 +410,19 @@ function applyEnvironmentRules<T extends EnvSchema>(
   // Clone the schema
   const modifiedSchema: Record<string, AnySchema> = { ...schema };
 
-  // Make specified variables required in production
+  // Make specified variables required in production, as a condition so
+  // missing-variable errors say why
   if (isProduction && requireInProduction) {
+    const condition: RequiredCondition = {
+      description: `environment is "${environment}"`,
+      test: () => true,
+    };
     for (const key of requireInProduction) {
       const fieldSchema = modifiedSchema[key];
       if (fieldSchema && fieldSchema._def.isOptional) {
-        modifiedSchema[key] = cloneSchemaWithOptional(fieldSchema, false);
+        modifiedSchema[key] = cloneSchemaWith(fieldSchema, {
+          requiredWhen: [...(fieldSchema._def.requiredWhen ?? []), condition],
+        });
       }
     }
   }
@@ -126,7 +432,9 @@ function applyEnvironmentRules<T extends EnvSchema>(
     for (const key of optionalInDevelopment) {
       const fieldSchema = modifiedSchema[key];
       if (fieldSchema) {
-        modifiedSchema[key] = cloneSchemaWithOptional(fieldSchema, true);
+        modifiedSchema[key] = cloneSchemaWith(fieldSchema, {
+          isOptional: true,
+        });
       }
     }
   }
@@ -134,25 +442,170 @@ function applyEnvironmentRules<T extends EnvSchema>(
   return modifiedSchema as T;
 }
 
+/**
+ * Apply the required, optional and default rules of the active profile
+ * Rules match full variable names, including grouped and branch variables
+ * Required wins over optional, and both over default overrides
+ */
+function applyProfileRules<T extends EnvSchema>(
+  schema: T,
+  profile: ActiveProfile | undefined
+): T {
+  if (!profile) return schema;
+
+  const { required = [], optional = [], defaults = {} } = profile.rules;
+  const condition: RequiredCondition = {
+    description: `profile "${profile.name}" is active`,
+    test: () => true,
+  };
+
+  const requiredNames = new Set(required);
+  const optionalNames = new Set(optional);
+
+  return mapSchema(schema, (name, fieldSchema) => {
+    let updated = fieldSchema;
+    if (Object.hasOwn(defaults, name)) {
+      updated = cloneSchemaWith(updated, {
+        isOptional: false,
+        defaultValue: defaults[name],
+      });
+    }
+    if (optionalNames.has(name)) {
+      updated = cloneSchemaWith(updated, { isOptional: true });
+    }
+    if (requiredNames.has(name)) {
+      updated = cloneSchemaWith(updated, {
+        requiredWhen: [...(updated._def.requiredWhen ?? []), condition],
+      });
+    }
+    return updated;
+  });
+}
+
+/**
+ * Get the validation options with the active profile's strictness
+ * Forbidden variables are reported on their own, never as unknown
+ */
+function applyProfileOptions(
+  options: EnvOptions,
+  profile: ActiveProfile | undefined
+): EnvOptions {
+  if (!profile) return options;
+
+  const { strict, forbidden = [] } = profile.rules;
+  return {
+    ...options,
+    ...(strict !== undefined && { strict }),
+    strictIgnore: [...(options.strictIgnore ?? []), ...forbidden],
+  };
+}
+
+/**
+ * Report the variables that the active profile forbids but are set
+ */
+function findForbiddenVariables(
+  source: Record<string, string | undefined>,
+  profile: ActiveProfile | undefined
+): ValidationError[] {
+  if (!profile) return [];
+
+  return (profile.rules.forbidden ?? [])
+    .filter((key) => source[key] !== undefined)
+    .map((key) => createForbiddenError(key, profile.name));
+}
+
+/**
+ * Attach the name of the active profile to errors
+ */
+function addErrorProfile(
+  errors: ValidationError[],
+  profile: ActiveProfile | undefined
+): ValidationError[] {
+  if (!profile) return errors;
+  return errors.map((error) => ({ ...error, profile: profile.name }));
+}
+
+/**
+ * Environment source plus any problems found while loading it
+ */
+export interface ResolvedSource {
+  source: Record<string, string | undefined>;
+  errors: ValidationError[];
+  /** Problems found while loading the source that do not fail validation */
+  warnings: ValidationError[];
+  /** Where each value loaded from a .env file was defined */
+  locations: Record<string, DotenvLocation>;
+}
+
 /**
  * Resolve the environment source, optionally layering and expanding dotenv files.
  */
-function resolveSource(options: EnvOptions): Record<string, string | undefined> {
+export function resolveSource(options: EnvOptions): ResolvedSource {
   const source = options.source ?? process.env;
 
   if (!options.dotenv) {
-    return source;
+    return { source, errors: [], warnings: [], locations: {} };
   }
 
   const dotenvPaths = resolveDotenvPaths(options);
-  let dotenvVars = loadDotenvFiles(...dotenvPaths);
+  const loaded = loadDotenvFilesWithDiagnostics(...dotenvPaths);
+  const { errors, warnings } = collectDotenvDiagnostics(
+    loaded.diagnostics,
+    options
+  );
+  let dotenvVars = loaded.values;
 
   if (options.dotenvExpand) {
-    dotenvVars = expandDotenvVars(dotenvVars, source);
+    const expansion = expandDotenvVarsWithErrors(
+      dotenvVars,
+      source,
+      loaded.locations,
+      loaded.literalKeys
+    );
+    dotenvVars = expansion.values;
+    errors.push(...expansion.errors);
   }
 
   // Merge: source vars take precedence over dotenv file vars
-  return Object.assign({}, dotenvVars, source);
+  const locations: Record<string, DotenvLocation> = {};
+  for (const [key, location] of Object.entries(loaded.locations)) {
+    if (source[key] === undefined) {
+      locations[key] = location;
+    }
+  }
+
+  return {
+    source: Object.assign({}, dotenvVars, source),
+    errors,
+    warnings,
+    locations,
+  };
+}
+
+/**
+ * Turn .env parse diagnostics into errors or warnings according to
+ * `dotenvDiagnostics`
+ */
+function collectDotenvDiagnostics(
+  diagnostics: DotenvDiagnostic[],
+  options: EnvOptions
+): Pick<ResolvedSource, "errors" | "warnings"> {
+  switch (options.dotenvDiagnostics) {
+    case "error":
+      return { errors: diagnostics.map(createDotenvError), warnings: [] };
+
+    case "warn":
+      return {
+        errors: [],
+        warnings: diagnostics.map((diagnostic) =>
+          asWarning(createDotenvError(diagnostic))
+        ),
+      };
+
+    case "ignore":
+    default:
+      return { errors: [], warnings: [] };
+  }
 }
 
 /**
@@ -167,15 +620,14 @@ function resolveDotenvPaths(options: EnvOptions): string[] {
     return [options.dotenvPath];
   }
 
-  if (!options.environment) {
-    return [".env"];
-  }
+  // Files of an aliased profile load before the environment's own files
+  const names = getDotenvNames(options);
 
   return [
     ".env",
-    `.env.${options.environment}`,
+    ...names.map((name) => `.env.${name}`),
     ".env.local",
-    `.env.${options.environment}.local`,
+    ...names.map((name) => `.env.${name}.local`),
   ];
 }
 
@@ -184,7 +636,9 @@ function resolveDotenvPaths(options: EnvOptions): string[] {
  */
 function applyCrossFieldValidation<T>(
   result: ValidationResult<T>,
-  validator?: (env: Readonly<Record<string, unknown>>) => CrossFieldValidationResult
+  validator?: (
+    env: Readonly<Record<string, unknown>>
+  ) => CrossFieldValidationResult
 ): ValidationResult<T> {
   if (!result.success || !result.data || !validator) {
     return result;
@@ -210,9 +664,7 @@ function applyCrossFieldValidation<T>(
 /**
  * Normalize cross-field validator issue into a standard validation error.
  */
-function normalizeCrossFieldIssue(
-  issue: string | CrossFieldValidationIssue
-) {
+function normalizeCrossFieldIssue(issue: string | CrossFieldValidationIssue) {
   if (typeof issue === "string") {
     return createCrossFieldError(issue);
   }
@@ -238,11 +690,6 @@ export function validateEnv<T extends EnvSchema>(
   schema: T,
   options: Omit<EnvOptions, "onError"> = {}
 ) {
-  const source = resolveSource(options);
-
-  // Apply environment-specific schema modifications
-  const modifiedSchema = applyEnvironmentRules(schema, options);
-
-  const baseResult = validate(modifiedSchema, source, options);
-  return applyCrossFieldValidation(baseResult, options.crossValidate);
+  const resolved = resolveSource(options);
+  return runValidation(schema, resolved.source, options, resolved);
 }
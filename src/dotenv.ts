@@ -5,68 +5,220 @@
 
 import * as fs from "fs";
 import * as path from "path";
+import type {
+  DotenvDiagnostic,
+  DotenvExpansionResult,
+  DotenvLocation,
+  DotenvParseResult,
+  ValidationError,
+} from "./types.js";
+import { createExpansionError } from "./validation/errors.js";
+
+/** Valid variable names (dots and dashes are accepted for compatibility) */
+const KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/;
+
+/**
+ * Lines that start a new assignment, which a quoted value never spans
+ * A lone `=` at the end is base64 padding (as in PEM keys), not an assignment
+ */
+const ASSIGNMENT_LINE = /^(export\s+)?[A-Za-z_][A-Za-z0-9_.-]*=(?!=|\s*$)/;
+
+/** Quote characters and their names for diagnostics */
+const QUOTES: Record<string, string> = {
+  '"': "double",
+  "'": "single",
+  "`": "backtick",
+};
 
 /**
  * Parse a .env file content into key-value pairs
+ * Malformed lines are skipped; use parseDotenvWithDiagnostics to see them
  */
 export function parseDotenv(content: string): Record<string, string> {
-  const result: Record<string, string> = {};
+  return parseDotenvWithDiagnostics(content).values;
+}
 
+/**
+ * Parse .env content and report line-numbered diagnostics
+ *
+ * Supports `export` prefixes, inline comments after unquoted values, and
+ * single, double and backtick quoted values that may span multiple lines.
+ * Escape sequences (\n, \r, \t, \", \\) are expanded in double quotes only,
+ * and single-quoted keys are listed in `literalKeys` so they are never
+ * expanded
+ *
+ * @example
+ * ```typescript
+ * const { values, diagnostics } = parseDotenvWithDiagnostics(content);
+ * for (const d of diagnostics) {
+ *   console.warn(`.env:${d.line}: ${d.message}`);
+ * }
+ * ```
+ */
+export function parseDotenvWithDiagnostics(content: string): DotenvParseResult {
+  const values: Record<string, string> = {};
+  const diagnostics: DotenvDiagnostic[] = [];
+  const locations: Record<string, DotenvLocation> = {};
+  const literalKeys = new Set<string>();
   const lines = content.split(/\r?\n/);
 
-  for (const line of lines) {
+  let index = 0;
+  while (index < lines.length) {
+    const lineNumber = index + 1;
+    const trimmed = (lines[index] ?? "").trim();
+    index++;
+
     // Skip empty lines and comments
-    const trimmed = line.trim();
     if (!trimmed || trimmed.startsWith("#")) {
       continue;
     }
 
-    // Find the first = sign
-    const eqIndex = trimmed.indexOf("=");
+    const assignment = trimmed.replace(/^export\s+/, "");
+    const eqIndex = assignment.indexOf("=");
     if (eqIndex === -1) {
+      diagnostics.push({
+        line: lineNumber,
+        message: `Expected KEY=VALUE, got "${truncate(trimmed)}"`,
+      });
       continue;
     }
 
-    const key = trimmed.slice(0, eqIndex).trim();
-    let value = trimmed.slice(eqIndex + 1).trim();
-
-    // Skip if key is empty
+    const key = assignment.slice(0, eqIndex).trim();
     if (!key) {
+      diagnostics.push({
+        line: lineNumber,
+        message: "Missing variable name before '='",
+      });
+      continue;
+    }
+
+    if (!KEY_PATTERN.test(key)) {
+      diagnostics.push({
+        line: lineNumber,
+        key,
+        message: `Invalid variable name "${key}"`,
+      });
+      continue;
+    }
+
+    const rawValue = assignment.slice(eqIndex + 1).trim();
+    const quote = rawValue[0];
+    locations[key] = { line: lineNumber };
+    literalKeys.delete(key);
+
+    if (quote === undefined || QUOTES[quote] === undefined) {
+      values[key] = stripInlineComment(rawValue);
       continue;
     }
 
-    // Handle quoted values
-    if (
-      (value.startsWith('"') && value.endsWith('"')) ||
-      (value.startsWith("'") && value.endsWith("'"))
-    ) {
-      value = value.slice(1, -1);
-      // Handle escape sequences in double-quoted strings
-      if (
-        trimmed
-          .slice(eqIndex + 1)
-          .trim()
-          .startsWith('"')
-      ) {
-        value = value
-          .replace(/\\n/g, "\n")
-          .replace(/\\r/g, "\r")
-          .replace(/\\t/g, "\t")
-          .replace(/\\\\/g, "\\")
-          .replace(/\\"/g, '"');
+    const token = readQuoted(rawValue.slice(1), quote, lines, index);
+
+    if (!token) {
+      // Keep the rest of the file intact: treat the line as unquoted
+      diagnostics.push({
+        line: lineNumber,
+        key,
+        message: `Unterminated ${QUOTES[quote]}-quoted value`,
+      });
+      values[key] = stripInlineComment(rawValue);
+      continue;
+    }
+
+    index = token.nextIndex;
+
+    if (token.trailing && !token.trailing.startsWith("#")) {
+      diagnostics.push({
+        line: token.nextIndex,
+        key,
+        message: `Unexpected characters after closing quote: "${truncate(token.trailing)}"`,
+      });
+    }
+
+    values[key] =
+      quote === '"' ? unescapeDoubleQuoted(token.value) : token.value;
+    if (quote === "'") {
+      literalKeys.add(key);
+    }
+  }
+
+  return { values, diagnostics, locations, literalKeys: [...literalKeys] };
+}
+
+/**
+ * Read a quoted value starting right after its opening quote
+ * Continues onto following lines until the closing quote is found, and
+ * returns null when it runs out of lines or reaches another assignment.
+ * In double and backtick quotes a backslash escapes the next character,
+ * so \" never closes the value and \\ cannot escape the closing quote.
+ * Single-quoted values are literal and end at the next '
+ */
+function readQuoted(
+  firstLine: string,
+  quote: string,
+  lines: string[],
+  nextIndex: number
+): { value: string; trailing: string; nextIndex: number } | null {
+  let buffer = firstLine;
+  let position = 0;
+  let lineIndex = nextIndex;
+
+  for (;;) {
+    while (position < buffer.length) {
+      const char = buffer[position];
+      if (char === "\\" && quote !== "'") {
+        position += 2;
+        continue;
       }
-    } else {
-      // Remove inline comments from unquoted values
-      const commentIndex = value.indexOf(" #");
-      if (commentIndex !== -1) {
-        value = value.slice(0, commentIndex).trim();
+      if (char === quote) {
+        return {
+          value: buffer.slice(0, position),
+          trailing: buffer.slice(position + 1).trim(),
+          nextIndex: lineIndex,
+        };
       }
+      position++;
     }
 
-    result[key] = value;
+    const nextLine = lines[lineIndex];
+    if (nextLine === undefined || ASSIGNMENT_LINE.test(nextLine.trim())) {
+      return null;
+    }
+
+    buffer += `\n${nextLine}`;
+    lineIndex++;
   }
+}
 
-  return result;
+/**
+ * Expand escape sequences in a double-quoted value
+ */
+function unescapeDoubleQuoted(value: string): string {
+  const escapes: Record<string, string> = {
+    n: "\n",
+    r: "\r",
+    t: "\t",
+    '"': '"',
+    "\\": "\\",
+  };
+  return value.replace(
+    /\\([nrt"\\])/g,
+    (_match, char: string) => escapes[char] ?? char
+  );
+}
+
+/**
+ * Remove an inline comment from an unquoted value
+ */
+function stripInlineComment(value: string): string {
+  const commentIndex = value.search(/\s#/);
+  return commentIndex === -1 ? value : value.slice(0, commentIndex).trim();
+}
+
+/**
+ * Truncate long snippets for diagnostics
+ */
+function truncate(value: string, maxLength = 40): string {
+  return value.length <= maxLength ? value : `${value.slice(0, maxLength)}...`;
 }
 
 /**
@@ -114,51 +266,252 @@ export function loadDotenvFiles(...paths: string[]): Record<string, string> {
 }
 
 /**
- * Expand ${VAR} references in dotenv values.
- * Variables from `vars` take precedence over `context`.
+ * Load and merge multiple .env files, collecting parse diagnostics
+ * Later files take precedence over earlier ones; each diagnostic records
+ * the file it came from
+ *
+ * @param paths - Paths to .env files (processed in order)
+ */
+export function loadDotenvFilesWithDiagnostics(
+  ...paths: string[]
+): DotenvParseResult {
+  const result: DotenvParseResult = {
+    values: {},
+    diagnostics: [],
+    locations: {},
+    literalKeys: [],
+  };
+
+  for (const filePath of paths) {
+    let content: string;
+    try {
+      content = fs.readFileSync(path.resolve(process.cwd(), filePath), "utf-8");
+    } catch {
+      // Missing .env files are not an error condition
+      continue;
+    }
+
+    const parsed = parseDotenvWithDiagnostics(content);
+    Object.assign(result.values, parsed.values);
+    result.literalKeys = [
+      ...result.literalKeys.filter((key) => !Object.hasOwn(parsed.values, key)),
+      ...parsed.literalKeys,
+    ];
+    for (const diagnostic of parsed.diagnostics) {
+      result.diagnostics.push({ ...diagnostic, file: filePath });
+    }
+    for (const [key, location] of Object.entries(parsed.locations)) {
+      result.locations[key] = { ...location, file: filePath };
+    }
+  }
+
+  return result;
+}
+
+/** Operators accepted inside `${NAME<op>word}` */
+const EXPANSION_OPERATORS = [":-", "-", ":?", "?", ":+", "+"] as const;
+
+type ExpansionOperator = (typeof EXPANSION_OPERATORS)[number];
+
+/**
+ * Expand `$VAR` and `${VAR}` references in dotenv values
+ * Variables from `vars` take precedence over `context`. Failed
+ * `${VAR:?message}` checks and circular references expand to an empty
+ * string; use expandDotenvVarsWithErrors to see them
  */
 export function expandDotenvVars(
   vars: Record<string, string>,
   context: Record<string, string | undefined> = process.env
 ): Record<string, string> {
-  const result: Record<string, string> = {};
-  const resolving = new Set<string>();
-  const pattern = /\\?\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+  return expandDotenvVarsWithErrors(vars, context).values;
+}
+
+/**
+ * Expand variable references in dotenv values, reporting failures
+ *
+ * Supports shell-style parameter expansion:
+ * - `${VAR:-default}` / `${VAR-default}`: default when unset or empty / unset
+ * - `${VAR:?message}` / `${VAR?message}`: error when unset or empty / unset
+ * - `${VAR:+alt}` / `${VAR+alt}`: alternative when set and non-empty / set
+ *
+ * Words may contain further references (`${A:-${B}}`); `\$` is a literal `$`.
+ * Values of `literalKeys` (single-quoted values) are kept as written.
+ * Errors name the file and line of the assignment when `locations` is given
+ *
+ * @example
+ * ```typescript
+ * const { values, errors } = expandDotenvVarsWithErrors(
+ *   { DATABASE_URL: "postgres://${DB_HOST:?DB_HOST is required}/app" },
+ *   process.env
+ * );
+ * ```
+ */
+export function expandDotenvVarsWithErrors(
+  vars: Record<string, string>,
+  context: Record<string, string | undefined> = process.env,
+  locations: Record<string, DotenvLocation> = {},
+  literalKeys: readonly string[] = []
+): DotenvExpansionResult {
+  const values: Record<string, string> = {};
+  const literal = new Set(literalKeys);
+  const errors: ValidationError[] = [];
+  const resolving: string[] = [];
 
-  const resolveKey = (key: string): string => {
-    if (result[key] !== undefined) {
-      return result[key];
+  const lookup = (name: string): string | undefined => {
+    if (!Object.prototype.hasOwnProperty.call(vars, name)) {
+      return context[name];
     }
 
-    if (resolving.has(key)) {
-      return "";
+    if (values[name] !== undefined) {
+      return values[name];
+    }
+
+    if (literal.has(name)) {
+      values[name] = vars[name] ?? "";
+      return values[name];
     }
 
-    const raw = vars[key];
-    if (raw === undefined) {
+    const cycleStart = resolving.indexOf(name);
+    if (cycleStart !== -1) {
+      const cycle = [...resolving.slice(cycleStart), name].join(" -> ");
+      errors.push(
+        createExpansionError(
+          name,
+          `Circular reference: ${cycle}`,
+          "no circular variable references",
+          locations[name]
+        )
+      );
       return "";
     }
 
-    resolving.add(key);
-    const expanded = raw.replace(pattern, (match, varName: string) => {
-      if (match.startsWith("\\")) {
-        return match.slice(1);
+    resolving.push(name);
+    const expanded = expandValue(vars[name] ?? "", name);
+    resolving.pop();
+    values[name] = expanded;
+    return expanded;
+  };
+
+  const applyOperator = (
+    key: string,
+    name: string,
+    operator: ExpansionOperator,
+    word: string
+  ): string => {
+    const value = lookup(name);
+    const isSet = value !== undefined;
+    const isSetAndNonEmpty = isSet && value !== "";
+
+    switch (operator) {
+      case ":-":
+        return isSetAndNonEmpty ? value : expandValue(word, key);
+      case "-":
+        return isSet ? value : expandValue(word, key);
+      case ":+":
+        return isSetAndNonEmpty ? expandValue(word, key) : "";
+      case "+":
+        return isSet ? expandValue(word, key) : "";
+      case ":?":
+      case "?": {
+        if (operator === ":?" ? isSetAndNonEmpty : isSet) {
+          return value ?? "";
+        }
+        const message = expandValue(word, key);
+        errors.push(
+          createExpansionError(
+            key,
+            message ||
+              `${name} is ${operator === ":?" ? "not set or empty" : "not set"}`,
+            `${name} to be set`,
+            locations[key]
+          )
+        );
+        return "";
+      }
+    }
+  };
+
+  const expandValue = (raw: string, key: string): string => {
+    let output = "";
+    let index = 0;
+
+    while (index < raw.length) {
+      const char = raw[index];
+
+      if (char === "\\" && raw[index + 1] === "$") {
+        output += "$";
+        index += 2;
+        continue;
       }
 
-      if (Object.prototype.hasOwnProperty.call(vars, varName)) {
-        return resolveKey(varName);
+      if (char !== "$") {
+        output += char;
+        index++;
+        continue;
       }
 
-      return context[varName] ?? "";
-    });
-    resolving.delete(key);
-    result[key] = expanded;
-    return expanded;
+      if (raw[index + 1] === "{") {
+        const end = findClosingBrace(raw, index + 2);
+        const match =
+          end === -1
+            ? null
+            : raw
+                .slice(index + 2, end)
+                .match(/^([A-Za-z_][A-Za-z0-9_]*)(.*)$/s);
+        const name = match?.[1];
+        const rest = match?.[2] ?? "";
+        const operator = EXPANSION_OPERATORS.find((op) => rest.startsWith(op));
+
+        if (name !== undefined && (rest === "" || operator)) {
+          output += operator
+            ? applyOperator(key, name, operator, rest.slice(operator.length))
+            : (lookup(name) ?? "");
+          index = end + 1;
+          continue;
+        }
+      } else {
+        const name = raw.slice(index + 1).match(/^[A-Za-z_][A-Za-z0-9_]*/)?.[0];
+        if (name !== undefined) {
+          output += lookup(name) ?? "";
+          index += name.length + 1;
+          continue;
+        }
+      }
+
+      // Not a reference: keep the dollar sign as-is
+      output += char;
+      index++;
+    }
+
+    return output;
   };
 
   for (const key of Object.keys(vars)) {
-    resolveKey(key);
+    lookup(key);
   }
 
-  return result;
+  return { values, errors };
+}
+
+/**
+ * Find the `}` closing a `${...}` reference, skipping nested references
+ * Returns -1 when the reference is not closed
+ */
+function findClosingBrace(raw: string, start: number): number {
+  let depth = 0;
+
+  for (let index = start; index < raw.length; index++) {
+    const char = raw[index];
+    if (char === "\\") {
+      index++;
+    } else if (char === "$" && raw[index + 1] === "{") {
+      depth++;
+      index++;
+    } else if (char === "}") {
+      if (depth === 0) return index;
+      depth--;
+    }
+  }
+
+  return -1;
 }
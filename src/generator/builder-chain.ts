@@ -0,0 +1,193 @@
+/**
+ * EnvProof - Builder Chains
+ * Describe `e.*` builder calls once, then build or print them
+ */
+
+import type { AnySchema, EnvSchema } from "../types.js";
+import * as e from "../schema/index.js";
+
+/** One call in a builder chain, e.g. `.min(1)` */
+export interface BuilderCall {
+  method: string;
+  args: BuilderArg[];
+}
+
+/**
+ * Builder calls in order; the first call is the `e.*` factory
+ * `[{ method: "number" }, { method: "port" }]` is `e.number().port()`
+ */
+export type BuilderChain = BuilderCall[];
+
+/** Argument to a builder call; nested chains become schemas */
+export type BuilderArg =
+  | string
+  | number
+  | boolean
+  | RegExp
+  | URL
+  | BuilderChain
+  | readonly BuilderChain[]
+  | readonly unknown[]
+  | Record<string, unknown>;
+
+/** Chain-building helper: `call("min", 1)` */
+export function call(method: string, ...args: BuilderArg[]): BuilderCall {
+  return { method, args };
+}
+
+/**
+ * Build a runtime schema from builder chains
+ */
+export function buildSchema(chains: Record<string, BuilderChain>): EnvSchema {
+  const schema: Record<string, AnySchema> = {};
+
+  for (const [name, chain] of Object.entries(chains)) {
+    schema[name] = buildChain(chain);
+  }
+
+  return schema;
+}
+
+/**
+ * Apply a chain's calls, starting from the `e` namespace
+ */
+function buildChain(chain: BuilderChain): AnySchema {
+  let target: unknown = e;
+
+  for (const { method, args } of chain) {
+    const fn = (target as Record<string, unknown>)[method];
+    if (typeof fn !== "function") {
+      throw new Error(`Unknown builder method: ${method}`);
+    }
+    target = (fn as (...values: unknown[]) => unknown).apply(
+      target,
+      args.map(buildArg)
+    );
+  }
+
+  return target as AnySchema;
+}
+
+/**
+ * Turn nested chains into schemas
+ */
+function buildArg(arg: BuilderArg): unknown {
+  if (isChain(arg)) {
+    return buildChain(arg);
+  }
+  if (Array.isArray(arg) && arg.length > 0 && arg.every(isChain)) {
+    return arg.map((chain) => buildChain(chain as BuilderChain));
+  }
+  return arg;
+}
+
+/**
+ * Render an `env.config.ts` module exporting the chains as `schema`
+ *
+ * @param comments - Comment lines to place above a variable, by name
+ */
+export function renderSchemaModule(
+  chains: Record<string, BuilderChain>,
+  comments: Record<string, string[]> = {}
+): string {
+  const lines = [
+    'import { e } from "envproof";',
+    "",
+    "export const schema = {",
+  ];
+
+  for (const [name, chain] of Object.entries(chains)) {
+    for (const comment of comments[name] ?? []) {
+      lines.push(`  // ${comment}`);
+    }
+
+    const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+    const inline = `  ${key}: ${renderChain(chain)},`;
+
+    if (inline.length <= 80 || chain.length < 2) {
+      lines.push(inline);
+      continue;
+    }
+
+    // Break long chains one call per line, like the init template
+    lines.push(`  ${key}: e`);
+    chain.forEach((builderCall, index) => {
+      const suffix = index === chain.length - 1 ? "," : "";
+      lines.push(`    .${renderCall(builderCall)}${suffix}`);
+    });
+  }
+
+  lines.push("};", "");
+  return lines.join("\n");
+}
+
+/**
+ * Render a chain as a single expression
+ */
+function renderChain(chain: BuilderChain): string {
+  return `e${chain.map((builderCall) => `.${renderCall(builderCall)}`).join("")}`;
+}
+
+/**
+ * Render one call; enum values get `as const` to keep literal types
+ */
+function renderCall({ method, args }: BuilderCall): string {
+  const rendered = args.map(renderArg);
+  if (method === "enum" && rendered.length > 0) {
+    rendered[0] = `${rendered[0]} as const`;
+  }
+  return `${method}(${rendered.join(", ")})`;
+}
+
+/**
+ * Render an argument as TypeScript source
+ */
+function renderArg(arg: BuilderArg): string {
+  if (isChain(arg)) {
+    return renderChain(arg);
+  }
+  if (Array.isArray(arg) && arg.length > 0 && arg.every(isChain)) {
+    return `[${arg.map((chain) => renderChain(chain as BuilderChain)).join(", ")}]`;
+  }
+  if (arg instanceof RegExp) {
+    return arg.toString();
+  }
+  if (arg instanceof URL) {
+    return `new URL(${JSON.stringify(arg.toString())})`;
+  }
+  return renderValue(arg);
+}
+
+/**
+ * Render a plain value as a TypeScript literal
+ */
+function renderValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(renderValue).join(", ")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value).map(
+      ([key, item]) =>
+        `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}: ${renderValue(item)}`
+    );
+    return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+/**
+ * Check whether an argument is a nested builder chain
+ */
+function isChain(arg: unknown): arg is BuilderChain {
+  return (
+    Array.isArray(arg) &&
+    arg.length > 0 &&
+    arg.every(
+      (item) =>
+        item !== null &&
+        typeof item === "object" &&
+        typeof (item as BuilderCall).method === "string" &&
+        Array.isArray((item as BuilderCall).args)
+    )
+  );
+}
@@ -0,0 +1,283 @@
+/**
+ * EnvProof - Type Declarations Generator
+ * Generate a `.d.ts` that types `process.env` or Vite's `import.meta.env`
+ * from schema
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  EnvSchema,
+  AnySchema,
+  TypeDeclarationsOptions,
+  ViteEnvDeclarationsOptions,
+} from "../types.js";
+import { isObjectSchema } from "../schema/object.js";
+import { isDiscriminatedSchema } from "../schema/discriminate.js";
+import { formatEnvValue } from "./values.js";
+
+/** Start of the first line of generated files; marks them safe to overwrite */
+const GENERATED_MARKER = "// Generated by envproof.";
+
+const HEADER = `${GENERATED_MARKER} Do not edit; run \`envproof types\`.`;
+
+const VITE_HEADER = `${GENERATED_MARKER} Do not edit; the Vite plugin regenerates it.`;
+
+/**
+ * A `ProcessEnv` property
+ */
+interface DeclarationEntry {
+  name: string;
+  schema: AnySchema;
+  isRequired: boolean;
+}
+
+/**
+ * Generate a declaration file augmenting `NodeJS.ProcessEnv`
+ *
+ * Required variables are `string`, optional or defaulted ones
+ * `string | undefined`, and enums become string-literal unions.
+ * Descriptions become JSDoc comments
+ *
+ * @example
+ * ```typescript
+ * fs.writeFileSync("env.d.ts", generateTypeDeclarations(schema));
+ * ```
+ */
+export function generateTypeDeclarations<T extends EnvSchema>(
+  schema: T
+): string {
+  const entries: DeclarationEntry[] = [];
+  collectEntries(schema, "", true, entries);
+
+  const lines = [
+    HEADER,
+    "",
+    "declare global {",
+    "  namespace NodeJS {",
+    "    interface ProcessEnv {",
+  ];
+
+  for (const entry of entries) {
+    lines.push(...renderEntry(entry, "      "));
+  }
+
+  lines.push("    }", "  }", "}", "", "export {};", "");
+  return lines.join("\n");
+}
+
+/**
+ * Generate a `vite-env.d.ts` typing `import.meta.env`
+ * Only variables named with one of the prefixes Vite exposes are declared
+ *
+ * @param envPrefix - Vite's `envPrefix` (default: "VITE_")
+ */
+export function generateViteEnvDeclarations<T extends EnvSchema>(
+  schema: T,
+  envPrefix: string | readonly string[] = "VITE_"
+): string {
+  const prefixes = typeof envPrefix === "string" ? [envPrefix] : envPrefix;
+  const entries: DeclarationEntry[] = [];
+  collectEntries(schema, "", true, entries);
+
+  const lines = [
+    VITE_HEADER,
+    "",
+    '/// <reference types="vite/client" />',
+    "",
+    "interface ImportMetaEnv {",
+  ];
+
+  for (const entry of entries) {
+    if (prefixes.some((prefix) => entry.name.startsWith(prefix))) {
+      lines.push(...renderEntry(entry, "  ", "readonly "));
+    }
+  }
+
+  lines.push("}", "", "interface ImportMeta {");
+  lines.push("  readonly env: ImportMetaEnv;", "}", "");
+  return lines.join("\n");
+}
+
+/**
+ * Collect variables of a shape
+ * Members of optional groups and discriminated branches may be unset
+ */
+function collectEntries(
+  shape: EnvSchema,
+  prefix: string,
+  isRequired: boolean,
+  entries: DeclarationEntry[]
+): void {
+  for (const [key, fieldSchema] of Object.entries(shape)) {
+    if (isObjectSchema(fieldSchema)) {
+      collectEntries(
+        fieldSchema.shape,
+        `${prefix}${fieldSchema.prefix}`,
+        isRequired && !fieldSchema._def.isOptional,
+        entries
+      );
+      continue;
+    }
+
+    if (isDiscriminatedSchema(fieldSchema)) {
+      addEntry(
+        `${prefix}${fieldSchema.discriminator}`,
+        fieldSchema.discriminatorSchema,
+        isRequired,
+        entries
+      );
+      for (const branch of Object.values(fieldSchema.branches)) {
+        collectEntries(branch, prefix, false, entries);
+      }
+      continue;
+    }
+
+    addEntry(`${prefix}${key}`, fieldSchema as AnySchema, isRequired, entries);
+  }
+}
+
+/**
+ * Add a variable, keeping the first declaration of a repeated name
+ */
+function addEntry(
+  name: string,
+  schema: AnySchema,
+  isRequired: boolean,
+  entries: DeclarationEntry[]
+): void {
+  if (entries.some((entry) => entry.name === name)) {
+    return;
+  }
+
+  const def = schema._def;
+  entries.push({
+    name,
+    schema,
+    isRequired: isRequired && !def.isOptional && def.defaultValue === undefined,
+  });
+}
+
+/**
+ * Render a property with its JSDoc comment
+ */
+function renderEntry(
+  { name, schema, isRequired }: DeclarationEntry,
+  indent: string,
+  modifier: string = ""
+): string[] {
+  const def = schema._def;
+  const docs: string[] = [];
+
+  if (def.metadata.description) {
+    docs.push(...def.metadata.description.split("\n"));
+  }
+  if (def.defaultValue !== undefined) {
+    docs.push(
+      `@default ${JSON.stringify(formatEnvValue(schema, def.defaultValue))}`
+    );
+  }
+  if (def.metadata.deprecated !== undefined) {
+    docs.push(`@deprecated ${def.metadata.deprecated}`);
+  }
+
+  const lines: string[] = [];
+  if (docs.length === 1) {
+    lines.push(`${indent}/** ${escapeComment(docs[0] ?? "")} */`);
+  } else if (docs.length > 1) {
+    lines.push(`${indent}/**`);
+    for (const doc of docs) {
+      lines.push(`${indent} * ${escapeComment(doc)}`.trimEnd());
+    }
+    lines.push(`${indent} */`);
+  }
+
+  const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+  const type =
+    def.type === "enum" && def.enumValues && def.enumValues.length > 0
+      ? def.enumValues.map((value) => JSON.stringify(value)).join(" | ")
+      : "string";
+
+  lines.push(
+    isRequired
+      ? `${indent}${modifier}${key}: ${type};`
+      : `${indent}${modifier}${key}?: ${type} | undefined;`
+  );
+  return lines;
+}
+
+/**
+ * Keep comment text from closing the JSDoc block
+ */
+function escapeComment(text: string): string {
+  return text.replace(/\*\//g, "*\\/");
+}
+
+/**
+ * Write type declarations to a file
+ * Files generated by envproof are replaced; others need `force`
+ */
+export function writeTypeDeclarations<T extends EnvSchema>(
+  schema: T,
+  options: TypeDeclarationsOptions = {}
+): { success: boolean; path: string; message: string } {
+  return writeDeclarations(
+    options.output ?? "env.d.ts",
+    () => generateTypeDeclarations(schema),
+    options.force
+  );
+}
+
+/**
+ * Write `import.meta.env` declarations for Vite to a file
+ * Files generated by envproof are replaced; others need `force`
+ */
+export function writeViteEnvDeclarations<T extends EnvSchema>(
+  schema: T,
+  options: ViteEnvDeclarationsOptions = {}
+): { success: boolean; path: string; message: string } {
+  return writeDeclarations(
+    options.output ?? "vite-env.d.ts",
+    () => generateViteEnvDeclarations(schema, options.envPrefix),
+    options.force
+  );
+}
+
+/**
+ * Write generated declarations unless that would replace a hand-written file
+ */
+function writeDeclarations(
+  outputPath: string,
+  generate: () => string,
+  force = false
+): { success: boolean; path: string; message: string } {
+  const absolutePath = path.resolve(process.cwd(), outputPath);
+
+  try {
+    if (
+      fs.existsSync(absolutePath) &&
+      !force &&
+      !fs.readFileSync(absolutePath, "utf-8").startsWith(GENERATED_MARKER)
+    ) {
+      return {
+        success: false,
+        path: absolutePath,
+        message: `File already exists: ${outputPath}. Use --force to overwrite.`,
+      };
+    }
+
+    fs.writeFileSync(absolutePath, generate(), "utf-8");
+    return {
+      success: true,
+      path: absolutePath,
+      message: `Generated ${outputPath}`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      success: false,
+      path: absolutePath,
+      message: `Failed to write file: ${message}`,
+    };
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * EnvProof - Docker Generator
+ * Generate Docker Compose and Dockerfile environment snippets from schema
+ */
+
+import type { EnvSchema, AnySchema, ComposeOptions } from "../types.js";
+import { generateShapeLines } from "./example.js";
+import { formatEnvValue } from "./values.js";
+
+/**
+ * Generate a `docker-compose.yml` service with an `environment:` block
+ *
+ * Required variables fail `docker compose up` when unset
+ * (`${VAR:?VAR is required}`), defaults apply when unset
+ * (`${VAR:-default}`), except those containing `}`, which are left to
+ * envproof. Members of optional groups and discriminated
+ * branches are never required, and a name shared by several branches is
+ * listed once. Secrets are never inlined: each becomes a Compose secret
+ * mounted at `/run/secrets/<name>` and passed as `VAR_FILE`
+ *
+ * @example
+ * ```typescript
+ * const yaml = generateComposeEnvironment(schema, { service: "api" });
+ * ```
+ */
+export function generateComposeEnvironment<T extends EnvSchema>(
+  schema: T,
+  options: ComposeOptions = {}
+): string {
+  const { service = "app", secretsDir = "./secrets" } = options;
+  const secrets: string[] = [];
+  const seen = new Set<string>();
+
+  const environment = generateShapeLines(
+    schema,
+    "",
+    (name, fieldSchema, _prefix, isRequired) => {
+      if (seen.has(name)) {
+        return [];
+      }
+      seen.add(name);
+
+      const def = fieldSchema._def;
+      const lines = def.metadata.description
+        ? [`# ${def.metadata.description}`]
+        : [];
+
+      if (def.metadata.isSecret) {
+        const secretName = name.toLowerCase();
+        secrets.push(secretName);
+        lines.push(`${name}_FILE: /run/secrets/${secretName}`);
+        return lines;
+      }
+
+      if (def.defaultValue !== undefined && !getComposeDefault(fieldSchema)) {
+        lines.push(
+          '# Default left to envproof: Compose defaults cannot contain "}"'
+        );
+      }
+      lines.push(
+        `${name}: ${JSON.stringify(getComposeValue(name, fieldSchema, isRequired))}`
+      );
+      return lines;
+    }
+  );
+
+  const lines = [
+    "services:",
+    `  ${service}:`,
+    "    environment:",
+    ...indent(trimTrailingBlank(environment), "      "),
+  ];
+
+  if (secrets.length > 0) {
+    lines.push("    secrets:");
+    lines.push(...secrets.map((secretName) => `      - ${secretName}`));
+    lines.push("", "secrets:");
+    for (const secretName of secrets) {
+      lines.push(`  ${secretName}:`);
+      lines.push(`    file: ${secretsDir}/${secretName}`);
+    }
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Generate Dockerfile `ARG`/`ENV` lines for variables with defaults
+ * The `ARG` lets builds override the default with `--build-arg`
+ *
+ * @example
+ * ```typescript
+ * const dockerfile = generateDockerfileEnv(schema);
+ * // ARG PORT=3000
+ * // ENV PORT=${PORT}
+ * ```
+ */
+export function generateDockerfileEnv<T extends EnvSchema>(schema: T): string {
+  const lines = generateShapeLines(schema, "", (name, fieldSchema) => {
+    const def = fieldSchema._def;
+    if (def.defaultValue === undefined || def.metadata.isSecret) {
+      return [];
+    }
+
+    const value = formatEnvValue(fieldSchema, def.defaultValue);
+    return [
+      ...(def.metadata.description ? [`# ${def.metadata.description}`] : []),
+      `ARG ${name}=${quoteDockerValue(value)}`,
+      `ENV ${name}=\${${name}}`,
+    ];
+  });
+
+  return `${trimTrailingBlank(lines).join("\n")}\n`;
+}
+
+/**
+ * Get the interpolated value of a plain variable
+ *
+ * @param isRequired - False when the variable's group or branch may be unset
+ */
+function getComposeValue(
+  name: string,
+  schema: AnySchema,
+  isRequired: boolean
+): string {
+  const def = schema._def;
+  const defaultValue = getComposeDefault(schema);
+
+  if (defaultValue !== undefined) {
+    return `\${${name}:-${defaultValue}}`;
+  }
+  // An empty value makes envproof apply a default Compose cannot hold
+  if (def.isOptional || def.defaultValue !== undefined || !isRequired) {
+    return `\${${name}:-}`;
+  }
+  return `\${${name}:?${name} is required}`;
+}
+
+/**
+ * Get a variable's default as written inside `${VAR:-...}`
+ * Compose has no escape for `}`, which would end the interpolation early,
+ * so defaults containing one (such as JSON objects) are left out
+ */
+function getComposeDefault(schema: AnySchema): string | undefined {
+  const { defaultValue } = schema._def;
+  if (defaultValue === undefined) {
+    return undefined;
+  }
+
+  const value = formatEnvValue(schema, defaultValue);
+  return value.includes("}") ? undefined : escapeCompose(value);
+}
+
+/**
+ * Escape `$` so Compose does not interpolate it
+ */
+function escapeCompose(value: string): string {
+  return value.replace(/\$/g, "$$$$");
+}
+
+/**
+ * Quote a Dockerfile value when it contains spaces, quotes or `$`
+ */
+function quoteDockerValue(value: string): string {
+  if (value !== "" && !/[\s"'\\$]/.test(value)) {
+    return value;
+  }
+  return `"${value.replace(/["\\$]/g, "\\$&")}"`;
+}
+
+/**
+ * Indent non-blank lines
+ */
+function indent(lines: string[], prefix: string): string[] {
+  return lines.map((line) => (line === "" ? "" : `${prefix}${line}`));
+}
+
+/**
+ * Drop the blank line the schema walk leaves after the last variable
+ */
+function trimTrailingBlank(lines: string[]): string[] {
+  const result = [...lines];
+  while (result.length > 0 && result[result.length - 1] === "") {
+    result.pop();
+  }
+  return result;
+}
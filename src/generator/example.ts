@@ -7,6 +7,8 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import type { EnvSchema, GenerateOptions, AnySchema } from "../types.js";
 import { BaseSchema } from "../schema/base.js";
+import { isObjectSchema } from "../schema/object.js";
+import { isDiscriminatedSchema } from "../schema/discriminate.js";
 
 /**
  * Generate .env.example content from a schema
@@ -32,19 +34,144 @@ export function generateExampleContent<T extends EnvSchema>(
   }
 
   // Process each variable
-  for (const [key, fieldSchema] of Object.entries(schema)) {
-    const schemaLines = generateVariableLines(key, fieldSchema as AnySchema);
-    lines.push(...schemaLines);
-    lines.push("");
-  }
+  lines.push(...generateShapeLines(schema, ""));
 
   return lines.join("\n");
 }
 
+/**
+ * Render the lines for one variable; an empty array skips it
+ * `isRequired` is false for members of optional groups and discriminated
+ * branches, which may be unset even when their own schema is required
+ */
+export type VariableLinesRenderer = (
+  name: string,
+  schema: AnySchema,
+  prefix: string,
+  isRequired: boolean
+) => string[];
+
+/**
+ * Generate lines for a group of variables sharing a name prefix
+ * Object groups get a section header and are expanded recursively;
+ * sections whose variables are all skipped are left out
+ *
+ * @param renderVariable - Lines for a single variable (default: .env.example)
+ * @param isRequired - Whether the shape itself must be present
+ */
+export function generateShapeLines(
+  shape: EnvSchema,
+  prefix: string,
+  renderVariable: VariableLinesRenderer = generateVariableLines,
+  isRequired: boolean = true
+): string[] {
+  const lines: string[] = [];
+
+  for (const [key, fieldSchema] of Object.entries(shape)) {
+    if (isObjectSchema(fieldSchema)) {
+      const groupPrefix = `${prefix}${fieldSchema.prefix}`;
+      const groupLines = generateShapeLines(
+        fieldSchema.shape,
+        groupPrefix,
+        renderVariable,
+        isRequired && !fieldSchema._def.isOptional
+      );
+      if (groupLines.length > 0) {
+        lines.push(...generateSectionHeader(key, groupPrefix, fieldSchema));
+        lines.push(...groupLines);
+      }
+      continue;
+    }
+
+    if (isDiscriminatedSchema(fieldSchema)) {
+      const discriminatorKey = `${prefix}${fieldSchema.discriminator}`;
+      const discriminatorLines = renderVariable(
+        discriminatorKey,
+        fieldSchema.discriminatorSchema,
+        prefix,
+        isRequired
+      );
+      const sectionLines: string[] =
+        discriminatorLines.length > 0 ? [...discriminatorLines, ""] : [];
+
+      for (const [branchName, branch] of Object.entries(fieldSchema.branches)) {
+        const branchLines = generateShapeLines(
+          branch,
+          prefix,
+          renderVariable,
+          false
+        );
+        if (branchLines.length === 0) {
+          continue;
+        }
+        sectionLines.push(
+          "# ------------------------------------------------------------"
+        );
+        sectionLines.push(`# When ${discriminatorKey}=${branchName}`);
+        sectionLines.push(
+          "# ------------------------------------------------------------"
+        );
+        sectionLines.push("");
+        sectionLines.push(...branchLines);
+      }
+
+      if (sectionLines.length > 0) {
+        lines.push(...generateSectionHeader(key, "", fieldSchema));
+        lines.push(...sectionLines);
+      }
+      continue;
+    }
+
+    const variableLines = renderVariable(
+      `${prefix}${key}`,
+      fieldSchema as AnySchema,
+      prefix,
+      isRequired
+    );
+    if (variableLines.length > 0) {
+      lines.push(...variableLines);
+      lines.push("");
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Generate the section header for an object group
+ */
+function generateSectionHeader(
+  name: string,
+  prefix: string,
+  schema: AnySchema
+): string[] {
+  const lines: string[] = [];
+  const description = schema._def.metadata.description;
+
+  lines.push("# ------------------------------------------------------------");
+  lines.push(`# ${name}${prefix ? ` (${prefix}*)` : ""}`);
+  if (description) {
+    lines.push(`# ${description}`);
+  }
+  if (schema._def.isOptional) {
+    lines.push("# Optional group: leave all variables unset to skip");
+  }
+  lines.push("# ------------------------------------------------------------");
+  lines.push("");
+
+  return lines;
+}
+
 /**
  * Generate lines for a single variable
+ *
+ * @param prefix - Prefix of the variable's group, for legacy names
  */
-function generateVariableLines(name: string, schema: AnySchema): string[] {
+export function generateVariableLines(
+  name: string,
+  schema: AnySchema,
+  prefix: string = ""
+): string[] {
   const lines: string[] = [];
   const def = schema._def;
   const baseSchema = schema as BaseSchema<unknown>;
@@ -65,6 +192,18 @@ function generateVariableLines(name: string, schema: AnySchema): string[] {
   } else {
     lines.push("# Required: yes");
   }
+  for (const { description } of def.requiredWhen ?? []) {
+    lines.push(`# Required when: ${description}`);
+  }
+
+  // Per-environment defaults
+  const environmentDefaults = Object.entries(def.environmentDefaults ?? {});
+  if (environmentDefaults.length > 0) {
+    const defaults = environmentDefaults.map(
+      ([environment, value]) => `${environment}=${formatDefaultValue(value)}`
+    );
+    lines.push(`# Default by environment: ${defaults.join(", ")}`);
+  }
 
   // Enum options
   if (def.enumValues && def.enumValues.length > 0) {
@@ -76,6 +215,22 @@ function generateVariableLines(name: string, schema: AnySchema): string[] {
     lines.push("# Format: JSON");
   }
 
+  // File indirection hint
+  if (def.fromFile) {
+    lines.push(`# Can also be read from a file named by ${name}_FILE`);
+  }
+
+  // Deprecation and legacy names
+  if (def.metadata.deprecated !== undefined) {
+    lines.push(`# Deprecated: ${def.metadata.deprecated}`);
+  }
+  if (def.aliases && def.aliases.length > 0) {
+    const legacyNames = def.aliases.map((alias) => `${prefix}${alias}`);
+    lines.push(
+      `# Formerly: ${legacyNames.join(", ")} (still read, deprecated)`
+    );
+  }
+
   // Secret warning
   if (def.metadata.isSecret) {
     lines.push("# ⚠️  This is a secret - do not commit real values");
@@ -0,0 +1,556 @@
+/**
+ * EnvProof - JSON Schema Importer
+ * Build envproof schemas from JSON Schema documents
+ */
+
+import type {
+  JsonSchemaDocument,
+  JsonSchemaImportResult,
+  JsonSchemaImportWarning,
+  JsonSchemaCodeResult,
+} from "../types.js";
+import type { BuilderArg, BuilderChain } from "./builder-chain.js";
+import { buildSchema, call, renderSchemaModule } from "./builder-chain.js";
+import { DURATION_PATTERN } from "./json-schema.js";
+
+/** Keywords that only annotate a schema and are safe to skip */
+const ANNOTATIONS = new Set(["title", "$comment", "$id", "$schema"]);
+
+/** String formats with an envproof equivalent */
+const FORMAT_CALLS: Record<string, BuilderChain> = {
+  email: [call("string"), call("email")],
+  uuid: [call("string"), call("uuid")],
+  ipv4: [call("string"), call("ip", { version: "v4" })],
+  ipv6: [call("string"), call("ip", { version: "v6" })],
+};
+
+/** JavaScript types a default may have, by builder factory */
+const DEFAULT_TYPES: Record<string, string[]> = {
+  string: ["string"],
+  number: ["number"],
+  boolean: ["boolean"],
+  duration: ["string", "number"],
+  json: ["string", "number", "boolean", "object"],
+  union: ["string", "number", "boolean", "object"],
+};
+
+/**
+ * State shared while converting one document
+ */
+interface ImportContext {
+  root: JsonSchemaDocument;
+  warnings: JsonSchemaImportWarning[];
+  variable: string;
+  /** `$ref`s being converted on the current path, to detect cycles */
+  refs: Set<string>;
+}
+
+/**
+ * Build a runtime schema from a JSON Schema document
+ *
+ * The document must describe an object whose properties are the
+ * variables. Keywords without an envproof equivalent are reported as
+ * warnings instead of being dropped silently
+ *
+ * @example
+ * ```typescript
+ * const { schema, warnings } = fromJsonSchema(document);
+ * for (const warning of warnings) console.warn(warning.message);
+ * const env = createEnv(schema);
+ * ```
+ */
+export function fromJsonSchema(
+  document: JsonSchemaDocument
+): JsonSchemaImportResult {
+  const { chains, warnings } = convertDocument(document);
+  return { schema: buildSchema(chains), warnings };
+}
+
+/**
+ * Generate `env.config.ts` source equivalent to a JSON Schema document
+ * Warnings are also written as comments above the affected variables
+ */
+export function generateSchemaCode(
+  document: JsonSchemaDocument
+): JsonSchemaCodeResult {
+  const { chains, warnings } = convertDocument(document);
+  const comments: Record<string, string[]> = {};
+
+  for (const warning of warnings) {
+    if (warning.variable !== undefined) {
+      comments[warning.variable] = [
+        ...(comments[warning.variable] ?? []),
+        `envproof: ${warning.message}`,
+      ];
+    }
+  }
+
+  return { code: renderSchemaModule(chains, comments), warnings };
+}
+
+/**
+ * Convert every property of the document to a builder chain
+ */
+function convertDocument(document: JsonSchemaDocument): {
+  chains: Record<string, BuilderChain>;
+  warnings: JsonSchemaImportWarning[];
+} {
+  const { properties, required = [] } = document;
+
+  if (
+    (document.type !== undefined && document.type !== "object") ||
+    properties === undefined ||
+    typeof properties !== "object"
+  ) {
+    throw new Error(
+      "JSON Schema must describe an object whose properties are the variables"
+    );
+  }
+
+  const warnings: JsonSchemaImportWarning[] = [];
+  const chains: Record<string, BuilderChain> = {};
+
+  for (const [name, property] of Object.entries(properties)) {
+    const context: ImportContext = {
+      root: document,
+      warnings,
+      variable: name,
+      refs: new Set(),
+    };
+    chains[name] = convertProperty(
+      property,
+      `/properties/${escapePointer(name)}`,
+      context,
+      required.includes(name)
+    );
+  }
+
+  for (const keyword of Object.keys(document)) {
+    if (
+      ANNOTATIONS.has(keyword) ||
+      ["type", "properties", "required", "description"].includes(keyword) ||
+      keyword === "$defs" ||
+      keyword === "definitions"
+    ) {
+      continue;
+    }
+
+    warnings.push({
+      path: `/${escapePointer(keyword)}`,
+      message: getRootWarning(keyword),
+    });
+  }
+
+  return { chains, warnings };
+}
+
+/**
+ * Explain why a document-level keyword was ignored
+ */
+function getRootWarning(keyword: string): string {
+  switch (keyword) {
+    case "additionalProperties":
+      return `"additionalProperties" was ignored; use the strict option to reject unknown variables`;
+    case "allOf":
+    case "anyOf":
+    case "oneOf":
+    case "if":
+      return `Conditional requirements ("${keyword}") are not supported; the affected variables are optional`;
+    default:
+      return `"${keyword}" is not supported and was ignored`;
+  }
+}
+
+/**
+ * Convert one property schema, including metadata and optionality
+ * A `$ref` back to a schema that is still being converted becomes
+ * `e.json()`, since recursive types cannot be expanded
+ */
+function convertProperty(
+  input: JsonSchemaDocument,
+  path: string,
+  context: ImportContext,
+  isRequired: boolean
+): BuilderChain {
+  const ref = typeof input.$ref === "string" ? input.$ref : undefined;
+  if (ref !== undefined && context.refs.has(ref)) {
+    context.warnings.push({
+      path: `${path}/$ref`,
+      variable: context.variable,
+      message: `Recursive "$ref" ${ref} is not supported; using e.json()`,
+    });
+    return [call("json")];
+  }
+
+  const node = resolveRef(input, path, context);
+  const used = new Set<string>(ANNOTATIONS);
+  const take = (keyword: string): unknown => {
+    used.add(keyword);
+    return node[keyword];
+  };
+  const warn = (keyword: string, message: string) => {
+    context.warnings.push({
+      path: `${path}/${escapePointer(keyword)}`,
+      variable: context.variable,
+      message,
+    });
+  };
+
+  if (ref !== undefined) context.refs.add(ref);
+  const chain = convertType(node, path, context, take, warn);
+  if (ref !== undefined) context.refs.delete(ref);
+
+  if (take("writeOnly") === true) {
+    chain.push(call("secret"));
+  }
+
+  const defaultValue = take("default");
+  const converted =
+    defaultValue !== undefined
+      ? convertDefault(defaultValue, chain)
+      : undefined;
+  if (converted !== undefined) {
+    chain.push(call("default", converted));
+  } else {
+    if (defaultValue !== undefined) {
+      warn("default", `Default ${JSON.stringify(defaultValue)} was ignored`);
+    }
+    if (!isRequired) {
+      chain.push(call("optional"));
+    }
+  }
+
+  const description = take("description") ?? node.title;
+  if (typeof description === "string") {
+    chain.push(call("description", description));
+  }
+
+  const examples = take("examples");
+  if (Array.isArray(examples) && examples.length > 0) {
+    const example: unknown = examples[0];
+    chain.push(
+      call(
+        "example",
+        typeof example === "string" ? example : JSON.stringify(example)
+      )
+    );
+  }
+
+  for (const keyword of Object.keys(node)) {
+    if (!used.has(keyword)) {
+      warn(keyword, `"${keyword}" is not supported and was ignored`);
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * Pick the builder for the node's type and apply its constraints
+ */
+function convertType(
+  node: JsonSchemaDocument,
+  path: string,
+  context: ImportContext,
+  take: (keyword: string) => unknown,
+  warn: (keyword: string, message: string) => void
+): BuilderChain {
+  const members = take("anyOf") ?? take("oneOf");
+  if (Array.isArray(members)) {
+    if (node.oneOf !== undefined) {
+      warn("oneOf", `"oneOf" is treated as "anyOf"`);
+    }
+    const keyword = node.anyOf !== undefined ? "anyOf" : "oneOf";
+    return [
+      call(
+        "union",
+        members.map((member: JsonSchemaDocument, index) =>
+          convertProperty(member, `${path}/${keyword}/${index}`, context, true)
+        )
+      ),
+    ];
+  }
+
+  const constValue = take("const");
+  if (constValue !== undefined) {
+    return [call("enum", [String(constValue)])];
+  }
+
+  const enumValues = take("enum");
+  if (Array.isArray(enumValues)) {
+    take("type");
+    return [call("enum", enumValues.map(String))];
+  }
+
+  let type = take("type");
+  if (Array.isArray(type)) {
+    if (type.includes("null")) {
+      warn("type", `"null" is not supported; unset the variable instead`);
+    }
+    const types = type.filter((item) => item !== "null");
+
+    if (
+      types.length === 2 &&
+      types.includes("string") &&
+      types.includes("number") &&
+      node.pattern === DURATION_PATTERN
+    ) {
+      take("pattern");
+      return [call("duration")];
+    }
+
+    if (types.length > 1) {
+      return [
+        call(
+          "union",
+          types.map((item) => [call(getFactory(item))])
+        ),
+      ];
+    }
+    type = types[0];
+  }
+
+  if (type === undefined) {
+    const looksLikeString = [
+      "format",
+      "pattern",
+      "minLength",
+      "maxLength",
+    ].some((keyword) => node[keyword] !== undefined);
+    type = looksLikeString ? "string" : undefined;
+  }
+
+  switch (type) {
+    case "string":
+      return convertString(node, take, warn);
+
+    case "integer":
+    case "number":
+      return convertNumber(type, take);
+
+    case "boolean":
+      return [call("boolean")];
+
+    case "array": {
+      const items = take("items");
+      const chain: BuilderChain = [
+        call(
+          "array",
+          items !== null && typeof items === "object"
+            ? convertProperty(
+                items as JsonSchemaDocument,
+                `${path}/items`,
+                context,
+                true
+              )
+            : [call("string")]
+        ),
+      ];
+      const minItems = take("minItems");
+      if (typeof minItems === "number") chain.push(call("minLength", minItems));
+      const maxItems = take("maxItems");
+      if (typeof maxItems === "number") chain.push(call("maxLength", maxItems));
+      return chain;
+    }
+
+    case "object":
+      return [call("json"), call("object")];
+
+    default:
+      if (type !== undefined) {
+        warn("type", `Type "${String(type)}" is not supported; using e.json()`);
+      }
+      return [call("json")];
+  }
+}
+
+/**
+ * Convert a string schema: formats, lengths and patterns
+ */
+function convertString(
+  node: JsonSchemaDocument,
+  take: (keyword: string) => unknown,
+  warn: (keyword: string, message: string) => void
+): BuilderChain {
+  const format = take("format");
+  let chain: BuilderChain = [call("string")];
+
+  if (format === "uri" || format === "url" || format === "iri") {
+    chain = [call("url")];
+    const protocols =
+      typeof node.pattern === "string"
+        ? node.pattern.match(/^\^\(([\w+.|-]+)\):$/)?.[1]
+        : undefined;
+    if (protocols !== undefined) {
+      chain.push(call("protocols", protocols.split("|")));
+    }
+  } else if (typeof format === "string") {
+    const formatChain = FORMAT_CALLS[format];
+    if (formatChain) {
+      chain = [...formatChain];
+    } else {
+      warn("format", `Format "${format}" is not supported and was ignored`);
+    }
+  }
+
+  const minLength = take("minLength");
+  const maxLength = take("maxLength");
+  if (typeof minLength === "number" && minLength === maxLength) {
+    chain.push(call("length", minLength));
+  } else {
+    if (typeof minLength === "number") {
+      chain.push(call("minLength", minLength));
+    }
+    if (typeof maxLength === "number") {
+      chain.push(call("maxLength", maxLength));
+    }
+  }
+
+  const pattern = take("pattern");
+  if (typeof pattern === "string") {
+    if (chain[1]?.method === "protocols") {
+      // Already applied as the protocol list
+    } else if (chain[0]?.method === "url") {
+      warn("pattern", `"pattern" is not supported on URLs and was ignored`);
+    } else {
+      const regex = toRegExp(pattern);
+      if (regex === undefined) {
+        warn(
+          "pattern",
+          `Pattern ${JSON.stringify(pattern)} is not a valid JavaScript regular expression and was ignored`
+        );
+      } else {
+        chain.push(call("pattern", regex));
+      }
+    }
+  }
+
+  return chain;
+}
+
+/**
+ * Compile a JSON Schema pattern
+ * Returns undefined for syntax JavaScript does not support, such as `(?i)`
+ */
+function toRegExp(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert a number schema; 1-65535 integers become `.port()`
+ */
+function convertNumber(
+  type: "integer" | "number",
+  take: (keyword: string) => unknown
+): BuilderChain {
+  const minimum = take("minimum");
+  const maximum = take("maximum");
+
+  if (type === "integer" && minimum === 1 && maximum === 65535) {
+    return [call("number"), call("port")];
+  }
+
+  const chain: BuilderChain = [call("number")];
+  if (type === "integer") chain.push(call("integer"));
+  if (typeof minimum === "number") chain.push(call("min", minimum));
+  if (typeof maximum === "number") chain.push(call("max", maximum));
+  return chain;
+}
+
+/**
+ * Get the factory for a single JSON type in a type list
+ */
+function getFactory(type: unknown): string {
+  switch (type) {
+    case "integer":
+    case "number":
+      return "number";
+    case "boolean":
+      return "boolean";
+    case "string":
+      return "string";
+    default:
+      return "json";
+  }
+}
+
+/**
+ * Convert a JSON default to the value the builder expects
+ * Returns undefined when the default does not fit the builder
+ */
+function convertDefault(
+  value: unknown,
+  chain: BuilderChain
+): BuilderArg | undefined {
+  const factory = chain[0]?.method;
+
+  if (factory === "url") {
+    try {
+      return new URL(String(value));
+    } catch {
+      return undefined;
+    }
+  }
+  if (factory === "enum") {
+    return String(value);
+  }
+  if (factory === "array") {
+    return Array.isArray(value) ? (value as BuilderArg) : undefined;
+  }
+  if (value === null || !DEFAULT_TYPES[factory ?? ""]?.includes(typeof value)) {
+    return undefined;
+  }
+
+  return value as BuilderArg;
+}
+
+/**
+ * Resolve a local `$ref` (`#/$defs/...` or `#/definitions/...`)
+ */
+function resolveRef(
+  node: JsonSchemaDocument,
+  path: string,
+  context: ImportContext
+): JsonSchemaDocument {
+  const ref = node.$ref;
+  if (typeof ref !== "string") {
+    return node;
+  }
+
+  const rest = { ...node };
+  delete rest.$ref;
+  const target = ref
+    .replace(/^#\/?/, "")
+    .split("/")
+    .filter((segment) => segment.length > 0)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce<unknown>(
+      (current, segment) =>
+        current !== null && typeof current === "object"
+          ? (current as Record<string, unknown>)[segment]
+          : undefined,
+      ref.startsWith("#") ? context.root : undefined
+    );
+
+  if (target === null || typeof target !== "object") {
+    context.warnings.push({
+      path: `${path}/$ref`,
+      variable: context.variable,
+      message: `Cannot resolve "$ref": ${ref}`,
+    });
+    return rest;
+  }
+
+  return { ...(target as JsonSchemaDocument), ...rest };
+}
+
+/**
+ * Escape a JSON Pointer segment
+ */
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
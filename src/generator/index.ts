@@ -7,3 +7,20 @@ export {
   generateExampleContent,
   writeExampleFile,
 } from "./example.js";
+export { formatEnvValue } from "./values.js";
+export {
+  generateMarkdownDocs,
+  updateMarkdownDocs,
+  writeMarkdownDocs,
+} from "./markdown.js";
+export {
+  generateTypeDeclarations,
+  writeTypeDeclarations,
+  generateViteEnvDeclarations,
+  writeViteEnvDeclarations,
+} from "./declarations.js";
+export { generateKubernetesManifests } from "./kubernetes.js";
+export { generateComposeEnvironment, generateDockerfileEnv } from "./docker.js";
+export { toJsonSchema } from "./json-schema.js";
+export { fromJsonSchema, generateSchemaCode } from "./from-json-schema.js";
+export { inferSchema, inferSchemaCode } from "./infer.js";
@@ -0,0 +1,230 @@
+/**
+ * EnvProof - Schema Inference
+ * Guess a schema from the values of an existing .env file
+ */
+
+import type { EnvSchema, InferSchemaOptions } from "../types.js";
+import type { BuilderChain } from "./builder-chain.js";
+import { buildSchema, call, renderSchemaModule } from "./builder-chain.js";
+import { parseDuration } from "../schema/duration.js";
+
+/** Variable names treated as secrets */
+const SECRET_NAME =
+  /(^|_)(SECRETS?|KEY|TOKEN|PASSWORD|PASS|PWD|CREDENTIALS?|PRIVATE_KEY)$/i;
+
+/** Variable names that hold a port number */
+const PORT_NAME = /(^|_)PORT$/i;
+
+/** Boolean spellings; 0 and 1 are inferred as integers */
+const BOOLEAN_VALUE = /^(true|false|yes|no|on|off)$/i;
+
+const INTEGER_VALUE = /^-?\d+$/;
+const NUMBER_VALUE = /^-?\d+\.\d+$/;
+const URL_VALUE = /^([a-z][a-z\d+.-]*):\/\//i;
+const UUID_VALUE =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_VALUE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Inferred builder chain plus notes for the generated code
+ */
+interface Inference {
+  chain: BuilderChain;
+  comments: string[];
+}
+
+/**
+ * Guess a schema from parsed .env values
+ *
+ * @example
+ * ```typescript
+ * const schema = inferSchema(parseDotenv(fs.readFileSync(".env", "utf-8")));
+ * ```
+ */
+export function inferSchema(
+  values: Record<string, string>,
+  options: InferSchemaOptions = {}
+): EnvSchema {
+  const chains: Record<string, BuilderChain> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    chains[name] = inferVariable(name, value, options).chain;
+  }
+
+  return buildSchema(chains);
+}
+
+/**
+ * Generate `env.config.ts` source for a schema guessed from .env values
+ * Values of non-secret variables are kept as examples only when
+ * `options.examples` is set
+ */
+export function inferSchemaCode(
+  values: Record<string, string>,
+  options: InferSchemaOptions = {}
+): string {
+  const chains: Record<string, BuilderChain> = {};
+  const comments: Record<string, string[]> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    const inference = inferVariable(name, value, options);
+    chains[name] = inference.chain;
+    if (inference.comments.length > 0) {
+      comments[name] = inference.comments;
+    }
+  }
+
+  return renderSchemaModule(chains, comments);
+}
+
+/**
+ * Guess the builder chain for one variable
+ */
+function inferVariable(
+  name: string,
+  value: string,
+  options: InferSchemaOptions
+): Inference {
+  const trimmed = value.trim();
+
+  if (trimmed === "") {
+    return {
+      chain: [call("string"), call("optional")],
+      comments: ["envproof: empty value; check the type"],
+    };
+  }
+
+  // Secrets stay strings; a numeric token is still a token
+  if (SECRET_NAME.test(name)) {
+    return { chain: [call("string"), call("secret")], comments: [] };
+  }
+
+  const chain = inferType(name, trimmed);
+  if (options.examples && !hasCredentials(trimmed)) {
+    chain.push(call("example", value));
+  }
+
+  return { chain, comments: [] };
+}
+
+/**
+ * Guess the builder from the value's shape
+ */
+function inferType(name: string, value: string): BuilderChain {
+  if (BOOLEAN_VALUE.test(value)) {
+    return [call("boolean")];
+  }
+
+  if (INTEGER_VALUE.test(value)) {
+    const number = Number(value);
+    if (PORT_NAME.test(name) && number >= 1 && number <= 65535) {
+      return [call("number"), call("port")];
+    }
+    return [call("number"), call("integer")];
+  }
+
+  if (NUMBER_VALUE.test(value)) {
+    return [call("number")];
+  }
+
+  const json = parseJson(value);
+  if (Array.isArray(json)) {
+    return [call("json"), call("array")];
+  }
+  if (json !== undefined) {
+    return [call("json"), call("object")];
+  }
+
+  // Lists go first: a comma-joined list of URLs also parses as one URL
+  const items = value
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+  if (items.length > 1 && (!URL_VALUE.test(value) || isUrlList(items))) {
+    return [call("array", inferItems(items))];
+  }
+
+  const protocol = getUrlProtocol(value);
+  if (protocol !== undefined) {
+    return [call("url"), call("protocols", [protocol])];
+  }
+
+  if (/[a-z]$/i.test(value) && parseDuration(value) !== null) {
+    return [call("duration")];
+  }
+
+  if (UUID_VALUE.test(value)) {
+    return [call("string"), call("uuid")];
+  }
+
+  if (EMAIL_VALUE.test(value)) {
+    return [call("string"), call("email")];
+  }
+
+  return [call("string")];
+}
+
+/**
+ * Guess the item builder of a comma list; mixed items stay strings
+ */
+function inferItems(items: string[]): BuilderChain {
+  if (items.every((item) => INTEGER_VALUE.test(item))) {
+    return [call("number"), call("integer")];
+  }
+  if (isUrlList(items)) {
+    return [call("url")];
+  }
+  if (items.every((item) => EMAIL_VALUE.test(item))) {
+    return [call("string"), call("email")];
+  }
+  return [call("string")];
+}
+
+/**
+ * Check whether every list item is a URL
+ */
+function isUrlList(items: string[]): boolean {
+  return items.every((item) => getUrlProtocol(item) !== undefined);
+}
+
+/**
+ * Get the protocol of a URL value, without the trailing colon
+ */
+function getUrlProtocol(value: string): string | undefined {
+  const protocol = value.match(URL_VALUE)?.[1];
+  if (protocol === undefined) {
+    return undefined;
+  }
+  try {
+    new URL(value);
+    return protocol.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Check whether a URL value embeds a username or password
+ */
+function hasCredentials(value: string): boolean {
+  if (getUrlProtocol(value) === undefined) {
+    return false;
+  }
+  const url = new URL(value);
+  return url.username !== "" || url.password !== "";
+}
+
+/**
+ * Parse a JSON object or array value
+ */
+function parseJson(value: string): unknown {
+  if (!/^[[{]/.test(value)) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return parsed !== null && typeof parsed === "object" ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
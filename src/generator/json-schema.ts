@@ -0,0 +1,312 @@
+/**
+ * EnvProof - JSON Schema Generator
+ * Export schemas as JSON Schema documents
+ */
+
+import type {
+  EnvSchema,
+  AnySchema,
+  JsonSchemaDocument,
+  JsonSchemaOptions,
+  SchemaType,
+  ValidationRule,
+} from "../types.js";
+import { ArraySchema } from "../schema/array.js";
+import { UnionSchema } from "../schema/union.js";
+import { isObjectSchema } from "../schema/object.js";
+import { isDiscriminatedSchema } from "../schema/discriminate.js";
+
+/** JSON Schema dialect of generated documents */
+const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema";
+
+/** Duration strings accepted by e.duration() */
+export const DURATION_PATTERN =
+  "^\\d+(\\.\\d+)?\\s*[a-zA-Z]+$|^\\d+(\\.\\d+)?$";
+
+/**
+ * Properties and required names collected from a schema walk
+ */
+interface JsonSchemaTarget {
+  properties: Record<string, JsonSchemaDocument>;
+  /** Required names, or null inside an optional group */
+  required: string[] | null;
+  /** Conditional requirements for discriminated branches */
+  conditions: JsonSchemaDocument[];
+}
+
+/**
+ * Convert a schema to a JSON Schema document describing the variables
+ * as one flat object
+ *
+ * Built-in rules map to keywords (`min` -> `minimum`, `email` -> `format`,
+ * ...); custom rules have no JSON Schema equivalent and are left out.
+ * Secrets are marked `writeOnly`
+ *
+ * @example
+ * ```typescript
+ * const document = toJsonSchema(schema, { title: "API service" });
+ * fs.writeFileSync("env.schema.json", JSON.stringify(document, null, 2));
+ * ```
+ */
+export function toJsonSchema<T extends EnvSchema>(
+  schema: T,
+  options: JsonSchemaOptions = {}
+): JsonSchemaDocument {
+  const target: JsonSchemaTarget = {
+    properties: {},
+    required: [],
+    conditions: [],
+  };
+  collectProperties(schema, "", target);
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...(options.title !== undefined && { title: options.title }),
+    type: "object",
+    properties: target.properties,
+    required: target.required ?? [],
+    ...(target.conditions.length > 0 && { allOf: target.conditions }),
+  };
+}
+
+/**
+ * Add the variables of a shape to the target
+ * Discriminated branches become `if`/`then` conditions on the discriminator
+ */
+function collectProperties(
+  shape: EnvSchema,
+  prefix: string,
+  target: JsonSchemaTarget
+): void {
+  for (const [key, fieldSchema] of Object.entries(shape)) {
+    if (isObjectSchema(fieldSchema)) {
+      collectProperties(fieldSchema.shape, `${prefix}${fieldSchema.prefix}`, {
+        ...target,
+        required: fieldSchema._def.isOptional ? null : target.required,
+      });
+      continue;
+    }
+
+    if (isDiscriminatedSchema(fieldSchema)) {
+      const discriminatorKey = `${prefix}${fieldSchema.discriminator}`;
+      addProperty(discriminatorKey, fieldSchema.discriminatorSchema, target);
+
+      for (const [branchName, branch] of Object.entries(fieldSchema.branches)) {
+        const required: string[] = [];
+        collectProperties(branch, prefix, { ...target, required });
+
+        if (required.length > 0 && target.required !== null) {
+          target.conditions.push({
+            if: {
+              properties: { [discriminatorKey]: { const: branchName } },
+              required: [discriminatorKey],
+            },
+            then: { required },
+          });
+        }
+      }
+      continue;
+    }
+
+    addProperty(`${prefix}${key}`, fieldSchema as AnySchema, target);
+  }
+}
+
+/**
+ * Add a single variable to the target
+ */
+function addProperty(
+  name: string,
+  schema: AnySchema,
+  target: JsonSchemaTarget
+): void {
+  const def = schema._def;
+  target.properties[name] = toPropertySchema(schema);
+
+  if (target.required && !def.isOptional && def.defaultValue === undefined) {
+    target.required.push(name);
+  }
+}
+
+/**
+ * Convert a single variable schema, including its rules and metadata
+ */
+function toPropertySchema(schema: AnySchema): JsonSchemaDocument {
+  const def = schema._def;
+  const node = getBaseSchema(schema);
+
+  for (const rule of def.rules) {
+    applyRule(node, def.type, rule);
+  }
+
+  if (def.metadata.description) {
+    node.description = def.metadata.description;
+  }
+  if (def.defaultValue !== undefined) {
+    node.default = toJsonValue(def.defaultValue);
+  }
+  if (def.metadata.example !== undefined && !def.metadata.isSecret) {
+    node.examples = [def.metadata.example];
+  }
+  if (def.metadata.isSecret) {
+    node.writeOnly = true;
+  }
+
+  return node;
+}
+
+/**
+ * Get the keywords implied by the schema type
+ */
+function getBaseSchema(schema: AnySchema): JsonSchemaDocument {
+  const def = schema._def;
+
+  switch (def.type) {
+    case "string":
+    case "path":
+      return { type: "string" };
+    case "number":
+      return { type: "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "url":
+      return { type: "string", format: "uri" };
+    case "enum":
+      return { type: "string", enum: [...(def.enumValues ?? [])] };
+    case "duration":
+      // Milliseconds or a duration string such as "30s"
+      return { type: ["string", "number"], pattern: DURATION_PATTERN };
+    case "array":
+      return {
+        type: "array",
+        ...(schema instanceof ArraySchema && {
+          items: toPropertySchema(schema.getItemSchema()),
+        }),
+      };
+    case "union":
+      return schema instanceof UnionSchema
+        ? { anyOf: schema.members.map(toPropertySchema) }
+        : {};
+    case "json":
+    default:
+      return {};
+  }
+}
+
+/**
+ * Map a built-in rule to JSON Schema keywords
+ * Rules without an equivalent (custom, path checks, ...) are skipped
+ */
+function applyRule(
+  node: JsonSchemaDocument,
+  type: SchemaType,
+  rule: ValidationRule
+): void {
+  const value = rule.params?.value;
+
+  switch (rule.name) {
+    case "integer":
+      node.type = "integer";
+      break;
+    case "min":
+      if (type === "number") node.minimum = value;
+      break;
+    case "max":
+      if (type === "number") node.maximum = value;
+      break;
+    case "minLength":
+      node[type === "array" ? "minItems" : "minLength"] = value;
+      break;
+    case "maxLength":
+      node[type === "array" ? "maxItems" : "maxLength"] = value;
+      break;
+    case "length":
+      node.minLength = value;
+      node.maxLength = value;
+      break;
+    case "nonEmpty":
+      addPattern(node, "\\S");
+      break;
+    case "pattern":
+      if (typeof rule.params?.pattern === "string") {
+        addPattern(node, rule.params.pattern);
+      }
+      break;
+    case "startsWith":
+      addPattern(node, `^${escapeRegExp(String(value))}`);
+      break;
+    case "endsWith":
+      addPattern(node, `${escapeRegExp(String(value))}$`);
+      break;
+    case "email":
+      node.format = "email";
+      break;
+    case "uuid":
+      node.format = "uuid";
+      break;
+    case "ip":
+      if (rule.params?.version === "v4") {
+        node.format = "ipv4";
+      } else if (rule.params?.version === "v6") {
+        node.format = "ipv6";
+      } else {
+        addConstraint(node, {
+          anyOf: [{ format: "ipv4" }, { format: "ipv6" }],
+        });
+      }
+      break;
+    case "protocols":
+      if (Array.isArray(rule.params?.protocols)) {
+        const protocols = (rule.params.protocols as string[]).map((protocol) =>
+          escapeRegExp(protocol.replace(/:$/, ""))
+        );
+        addPattern(node, `^(${protocols.join("|")}):`);
+      }
+      break;
+    case "array":
+      if (type === "json") node.type = "array";
+      break;
+    case "object":
+      if (type === "json") node.type = "object";
+      break;
+  }
+}
+
+/**
+ * Add a pattern, moving extra patterns into `allOf` since a node can
+ * only hold one
+ */
+function addPattern(node: JsonSchemaDocument, pattern: string): void {
+  if (node.pattern === undefined) {
+    node.pattern = pattern;
+  } else {
+    addConstraint(node, { pattern });
+  }
+}
+
+/**
+ * Add a subschema every value must also match
+ */
+function addConstraint(
+  node: JsonSchemaDocument,
+  constraint: JsonSchemaDocument
+): void {
+  node.allOf = [...(node.allOf ?? []), constraint];
+}
+
+/**
+ * Convert a typed value to its JSON representation
+ */
+function toJsonValue(value: unknown): unknown {
+  if (value instanceof URL) {
+    return value.toString();
+  }
+  return value;
+}
+
+/**
+ * Escape a literal for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
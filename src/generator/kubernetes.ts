@@ -0,0 +1,194 @@
+/**
+ * EnvProof - Kubernetes Generator
+ * Generate ConfigMap and Secret manifests from schema
+ */
+
+import type {
+  EnvSchema,
+  AnySchema,
+  KubernetesManifests,
+  KubernetesOptions,
+} from "../types.js";
+import { isObjectSchema } from "../schema/object.js";
+import { isDiscriminatedSchema } from "../schema/discriminate.js";
+import { formatEnvValue } from "./values.js";
+
+/**
+ * A variable with the value it gets in the manifests
+ */
+interface ManifestEntry {
+  name: string;
+  value: string | undefined;
+  isSecret: boolean;
+}
+
+/**
+ * Generate a ConfigMap for plain variables and a Secret for `.secret()`
+ * ones, plus the `envFrom` snippet that loads both into a container
+ *
+ * Values come from `values` first, then schema defaults. Required
+ * variables without either fall back to their example; secrets never do
+ * and are left empty to fill in
+ *
+ * @example
+ * ```typescript
+ * const { manifests, envFrom } = generateKubernetesManifests(
+ *   schema,
+ *   loadDotenv(".env.production"),
+ *   { name: "api-env", namespace: "production" }
+ * );
+ * ```
+ */
+export function generateKubernetesManifests<T extends EnvSchema>(
+  schema: T,
+  values: Record<string, string> = {},
+  options: KubernetesOptions = {}
+): KubernetesManifests {
+  const name = options.name ?? "app-env";
+  const secretName = options.secretName ?? `${name}-secret`;
+  const entries: ManifestEntry[] = [];
+  collectEntries(schema, "", true, values, entries);
+
+  const plain = entries.filter((entry) => !entry.isSecret);
+  const secrets = entries.filter((entry) => entry.isSecret);
+
+  const documents = [
+    [
+      "apiVersion: v1",
+      "kind: ConfigMap",
+      ...renderMetadata(name, options.namespace),
+      ...renderData(plain, (value) => JSON.stringify(value)),
+    ],
+  ];
+  const envFrom = ["envFrom:", "  - configMapRef:", `      name: ${name}`];
+
+  if (secrets.length > 0) {
+    documents.push([
+      "apiVersion: v1",
+      "kind: Secret",
+      ...renderMetadata(secretName, options.namespace),
+      "type: Opaque",
+      ...renderData(secrets, (value) =>
+        JSON.stringify(Buffer.from(value, "utf-8").toString("base64"))
+      ),
+    ]);
+    envFrom.push("  - secretRef:", `      name: ${secretName}`);
+  }
+
+  return {
+    manifests: `${documents.map((lines) => lines.join("\n")).join("\n---\n")}\n`,
+    envFrom: `${envFrom.join("\n")}\n`,
+  };
+}
+
+/**
+ * Collect the variables of a shape
+ * Members of optional groups and discriminated branches are only
+ * included when they have a value
+ */
+function collectEntries(
+  shape: EnvSchema,
+  prefix: string,
+  isRequired: boolean,
+  values: Record<string, string>,
+  entries: ManifestEntry[]
+): void {
+  for (const [key, fieldSchema] of Object.entries(shape)) {
+    if (isObjectSchema(fieldSchema)) {
+      collectEntries(
+        fieldSchema.shape,
+        `${prefix}${fieldSchema.prefix}`,
+        isRequired && !fieldSchema._def.isOptional,
+        values,
+        entries
+      );
+      continue;
+    }
+
+    if (isDiscriminatedSchema(fieldSchema)) {
+      addEntry(
+        `${prefix}${fieldSchema.discriminator}`,
+        fieldSchema.discriminatorSchema,
+        isRequired,
+        values,
+        entries
+      );
+      for (const branch of Object.values(fieldSchema.branches)) {
+        collectEntries(branch, prefix, false, values, entries);
+      }
+      continue;
+    }
+
+    addEntry(
+      `${prefix}${key}`,
+      fieldSchema as AnySchema,
+      isRequired,
+      values,
+      entries
+    );
+  }
+}
+
+/**
+ * Resolve the value of one variable and add it
+ */
+function addEntry(
+  name: string,
+  schema: AnySchema,
+  isRequired: boolean,
+  values: Record<string, string>,
+  entries: ManifestEntry[]
+): void {
+  if (entries.some((entry) => entry.name === name)) {
+    return;
+  }
+
+  const def = schema._def;
+  const isSecret = def.metadata.isSecret;
+  let value = values[name];
+
+  if (value === undefined && def.defaultValue !== undefined) {
+    value = formatEnvValue(schema, def.defaultValue);
+  }
+  if (value === undefined && (!isRequired || def.isOptional)) {
+    return;
+  }
+  if (value === undefined && !isSecret) {
+    value = schema.getExample();
+  }
+
+  entries.push({ name, value, isSecret });
+}
+
+/**
+ * Render the metadata block
+ */
+function renderMetadata(name: string, namespace: string | undefined): string[] {
+  return [
+    "metadata:",
+    `  name: ${name}`,
+    ...(namespace !== undefined ? [`  namespace: ${namespace}`] : []),
+  ];
+}
+
+/**
+ * Render the data block; secrets without a value are left to fill in
+ */
+function renderData(
+  entries: ManifestEntry[],
+  encode: (value: string) => string
+): string[] {
+  if (entries.length === 0) {
+    return ["data: {}"];
+  }
+
+  return [
+    "data:",
+    ...entries.map(({ name, value }) => {
+      const key = /^[A-Za-z_][\w.-]*$/.test(name) ? name : JSON.stringify(name);
+      return value === undefined
+        ? `  ${key}: "" # set before applying`
+        : `  ${key}: ${encode(value)}`;
+    }),
+  ];
+}
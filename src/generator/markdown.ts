@@ -0,0 +1,329 @@
+/**
+ * EnvProof - Markdown Generator
+ * Generate configuration reference docs from schema
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { EnvSchema, MarkdownDocsOptions, AnySchema } from "../types.js";
+import { BaseSchema } from "../schema/base.js";
+import { isObjectSchema } from "../schema/object.js";
+import { isDiscriminatedSchema } from "../schema/discriminate.js";
+import { formatEnvValue } from "./values.js";
+
+/** Table columns, in order */
+const COLUMNS = [
+  "Name",
+  "Type",
+  "Required",
+  "Default",
+  "Options",
+  "Secret",
+  "Description",
+  "Example",
+];
+
+/**
+ * A table of variables under an optional heading
+ */
+interface DocsSection {
+  title?: string;
+  notes: string[];
+  rows: DocsRow[];
+}
+
+interface DocsRow {
+  name: string;
+  cells: string[];
+}
+
+/**
+ * Generate a Markdown reference table from a schema
+ * Object groups and discriminated branches get a table of their own
+ *
+ * @example
+ * ```typescript
+ * const docs = generateMarkdownDocs(schema, {
+ *   title: "API service",
+ *   groupByPrefix: true,
+ * });
+ * ```
+ */
+export function generateMarkdownDocs<T extends EnvSchema>(
+  schema: T,
+  options: MarkdownDocsOptions = {}
+): string {
+  const { title = "Environment Variables", headingLevel = 2 } = options;
+  const main: DocsSection = { notes: [], rows: [] };
+  const nested: DocsSection[] = [];
+
+  collectSections(schema, "", main, nested);
+
+  const sections = options.groupByPrefix
+    ? [...splitByPrefix(main, options.groupByPrefix), ...nested]
+    : [main, ...nested];
+
+  const lines: string[] = [`${"#".repeat(headingLevel)} ${title}`, ""];
+  for (const section of sections) {
+    lines.push(...renderSection(section, headingLevel + 1));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Collect table rows for a shape, adding sections for nested groups
+ */
+function collectSections(
+  shape: EnvSchema,
+  prefix: string,
+  section: DocsSection,
+  sections: DocsSection[]
+): void {
+  for (const [key, fieldSchema] of Object.entries(shape)) {
+    if (isObjectSchema(fieldSchema)) {
+      const groupPrefix = `${prefix}${fieldSchema.prefix}`;
+      const group = createSection(
+        groupPrefix ? `${key} (\`${groupPrefix}*\`)` : key,
+        fieldSchema
+      );
+      sections.push(group);
+      collectSections(fieldSchema.shape, groupPrefix, group, sections);
+      continue;
+    }
+
+    if (isDiscriminatedSchema(fieldSchema)) {
+      const discriminatorKey = `${prefix}${fieldSchema.discriminator}`;
+      section.rows.push(
+        createRow(
+          discriminatorKey,
+          fieldSchema.discriminatorSchema,
+          fieldSchema._def.metadata.description
+        )
+      );
+
+      for (const [branchName, branch] of Object.entries(fieldSchema.branches)) {
+        const branchSection: DocsSection = {
+          title: `When \`${discriminatorKey}=${branchName}\``,
+          notes: [],
+          rows: [],
+        };
+        sections.push(branchSection);
+        collectSections(branch, prefix, branchSection, sections);
+      }
+      continue;
+    }
+
+    section.rows.push(createRow(`${prefix}${key}`, fieldSchema as AnySchema));
+  }
+}
+
+/**
+ * Create the section for an object group
+ */
+function createSection(title: string, schema: AnySchema): DocsSection {
+  const notes: string[] = [];
+  const description = schema._def.metadata.description;
+
+  if (description) {
+    notes.push(description);
+  }
+  if (schema._def.isOptional) {
+    notes.push("Optional group: leave all variables unset to skip.");
+  }
+
+  return { title, notes, rows: [] };
+}
+
+/**
+ * Create the table row for a single variable
+ */
+function createRow(
+  name: string,
+  schema: AnySchema,
+  fallbackDescription?: string
+): DocsRow {
+  const def = schema._def;
+  const isSecret = def.metadata.isSecret;
+  const example = isSecret
+    ? "your_secret_here"
+    : (schema as BaseSchema<unknown>).getExample();
+
+  return {
+    name,
+    cells: [
+      code(name),
+      schema.getTypeDescription(),
+      !def.isOptional && def.defaultValue === undefined ? "yes" : "no",
+      def.defaultValue !== undefined
+        ? code(formatEnvValue(schema, def.defaultValue))
+        : "-",
+      (def.enumValues ?? []).map(code).join(", "),
+      isSecret ? "yes" : "no",
+      def.metadata.description ?? fallbackDescription ?? "",
+      code(example),
+    ],
+  };
+}
+
+/**
+ * Move variables sharing a name prefix (e.g. `DB_`) into their own sections
+ * `true` groups by the first underscore-separated segment when it is shared
+ * by at least two variables
+ */
+function splitByPrefix(
+  section: DocsSection,
+  groupByPrefix: true | string[]
+): DocsSection[] {
+  const prefixOf = (name: string): string | undefined =>
+    groupByPrefix === true
+      ? name.match(/^[A-Za-z0-9]+_/)?.[0]
+      : groupByPrefix.find((prefix) => name.startsWith(prefix));
+
+  const groups = new Map<string, DocsRow[]>();
+  for (const row of section.rows) {
+    const prefix = prefixOf(row.name);
+    if (prefix !== undefined) {
+      groups.set(prefix, [...(groups.get(prefix) ?? []), row]);
+    }
+  }
+
+  const grouped: DocsSection[] = [];
+  const groupedNames = new Set<string>();
+  for (const [prefix, rows] of groups) {
+    if (groupByPrefix === true && rows.length < 2) continue;
+
+    grouped.push({ title: code(`${prefix}*`), notes: [], rows });
+    for (const row of rows) {
+      groupedNames.add(row.name);
+    }
+  }
+
+  const rest: DocsSection = {
+    ...section,
+    rows: section.rows.filter((row) => !groupedNames.has(row.name)),
+  };
+  return [rest, ...grouped];
+}
+
+/**
+ * Render a section as an optional heading, notes and a table
+ */
+function renderSection(section: DocsSection, headingLevel: number): string[] {
+  const lines: string[] = [];
+
+  if (section.title) {
+    lines.push(`${"#".repeat(headingLevel)} ${section.title}`, "");
+  }
+  for (const note of section.notes) {
+    lines.push(note, "");
+  }
+
+  if (section.rows.length > 0) {
+    lines.push(`| ${COLUMNS.join(" | ")} |`);
+    lines.push(`| ${COLUMNS.map(() => "---").join(" | ")} |`);
+    for (const row of section.rows) {
+      lines.push(`| ${row.cells.map(escapeCell).join(" | ")} |`);
+    }
+    lines.push("");
+  }
+
+  return lines;
+}
+
+/**
+ * Wrap a value in a code span
+ */
+function code(value: string): string {
+  return `\`${value}\``;
+}
+
+/**
+ * Keep cell content from breaking the table
+ */
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Replace the docs between `<!-- marker:start -->` and `<!-- marker:end -->`
+ * Returns null when the markers are not found
+ */
+export function updateMarkdownDocs(
+  content: string,
+  docs: string,
+  marker: string = "envproof"
+): string | null {
+  const start = `<!-- ${marker}:start -->`;
+  const end = `<!-- ${marker}:end -->`;
+  const startIndex = content.indexOf(start);
+  const endIndex = content.indexOf(end, startIndex);
+
+  if (startIndex === -1 || endIndex === -1) {
+    return null;
+  }
+
+  return `${content.slice(0, startIndex)}${wrapDocs(docs, marker)}${content.slice(endIndex + end.length)}`;
+}
+
+/**
+ * Surround docs with marker comments
+ */
+function wrapDocs(docs: string, marker: string): string {
+  return `<!-- ${marker}:start -->\n${docs.trimEnd()}\n<!-- ${marker}:end -->`;
+}
+
+/**
+ * Write Markdown docs to a file
+ *
+ * An existing file is only updated between its marker comments, so
+ * hand-written content around them is kept. With `force`, a file without
+ * markers gets the docs appended instead of being rejected
+ */
+export function writeMarkdownDocs<T extends EnvSchema>(
+  schema: T,
+  options: MarkdownDocsOptions = {}
+): { success: boolean; path: string; message: string } {
+  const outputPath = options.output ?? "README.md";
+  const absolutePath = path.resolve(process.cwd(), outputPath);
+  const marker = options.marker ?? "envproof";
+  const docs = generateMarkdownDocs(schema, options);
+
+  try {
+    if (!fs.existsSync(absolutePath)) {
+      fs.writeFileSync(absolutePath, `${wrapDocs(docs, marker)}\n`, "utf-8");
+      return {
+        success: true,
+        path: absolutePath,
+        message: `Generated ${outputPath}`,
+      };
+    }
+
+    const existing = fs.readFileSync(absolutePath, "utf-8");
+    const updated = updateMarkdownDocs(existing, docs, marker);
+
+    if (updated === null && !options.force) {
+      return {
+        success: false,
+        path: absolutePath,
+        message: `No <!-- ${marker}:start --> / <!-- ${marker}:end --> markers in ${outputPath}. Add them or use --force to append.`,
+      };
+    }
+
+    const content =
+      updated ?? `${existing.trimEnd()}\n\n${wrapDocs(docs, marker)}\n`;
+    fs.writeFileSync(absolutePath, content, "utf-8");
+    return {
+      success: true,
+      path: absolutePath,
+      message: `Updated ${outputPath}`,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return {
+      success: false,
+      path: absolutePath,
+      message: `Failed to write file: ${message}`,
+    };
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * EnvProof - Value Formatting
+ * Turn typed values back into environment variable strings
+ */
+
+import type { AnySchema } from "../types.js";
+import { isArraySchema } from "../schema/array.js";
+
+/**
+ * Format a typed value (such as a schema default) as the string a
+ * variable would hold, so that parsing it again yields the same value
+ *
+ * @example
+ * ```typescript
+ * formatEnvValue(e.array(e.string()).separator(";"), ["a", "b"]); // "a;b"
+ * formatEnvValue(e.url(), new URL("https://example.com")); // "https://example.com/"
+ * ```
+ */
+export function formatEnvValue(schema: AnySchema, value: unknown): string {
+  if (isArraySchema(schema) && Array.isArray(value)) {
+    return value.map((item) => formatScalar(item)).join(schema.getSeparator());
+  }
+
+  return formatScalar(value);
+}
+
+/**
+ * Format a single value; objects fall back to JSON
+ */
+function formatScalar(value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  if (
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    typeof value === "bigint"
+  ) {
+    return String(value);
+  }
+  if (value instanceof URL) {
+    return value.toString();
+  }
+  return JSON.stringify(value);
+}
@@ -39,7 +39,22 @@
  * console.log(env.PORT); // number
  * ```
  */
-export { createEnv, validateEnv } from "./create-env.js";
+export { createEnv, createEnvAsync, validateEnv } from "./create-env.js";
+
+// Secret resolvers
+
+/**
+ * Built-in resolver for secret references backed by a local JSON document
+ * or a directory of files. Use with createEnvAsync's `resolvers` option.
+ *
+ * @example
+ * ```typescript
+ * const env = await createEnvAsync(schema, {
+ *   resolvers: { secret: fileResolver("./secrets.json") },
+ * });
+ * ```
+ */
+export { fileResolver } from "./resolvers.js";
 
 // Schema builders
 
@@ -74,6 +89,9 @@ export {
   array,
   duration,
   path,
+  object,
+  union,
+  discriminate,
   StringSchema,
   NumberSchema,
   BooleanSchema,
@@ -83,6 +101,9 @@ export {
   ArraySchema,
   DurationSchema,
   PathSchema,
+  ObjectSchema,
+  UnionSchema,
+  DiscriminatedSchema,
   BaseSchema,
 } from "./schema/index.js";
 
@@ -105,6 +126,22 @@ export {
   generateExample,
   generateExampleContent,
   writeExampleFile,
+  formatEnvValue,
+  generateMarkdownDocs,
+  updateMarkdownDocs,
+  writeMarkdownDocs,
+  generateTypeDeclarations,
+  writeTypeDeclarations,
+  generateViteEnvDeclarations,
+  writeViteEnvDeclarations,
+  generateKubernetesManifests,
+  generateComposeEnvironment,
+  generateDockerfileEnv,
+  toJsonSchema,
+  fromJsonSchema,
+  generateSchemaCode,
+  inferSchema,
+  inferSchemaCode,
 } from "./generator/index.js";
 
 // Validation utilities
@@ -122,8 +159,18 @@ export { EnvValidationError, formatErrors } from "./validation/index.js";
  * - formatPretty: Human-readable colored output
  * - formatJson: Machine-readable JSON output
  * - formatMinimal: Single-line summary
+ * - formatGithub: GitHub Actions `::error` annotations
+ * - formatJunit: JUnit XML, one testcase per variable
+ * - formatSarif: SARIF log pointing at .env lines
  */
-export { formatPretty, formatJson, formatMinimal } from "./reporters/index.js";
+export {
+  formatPretty,
+  formatJson,
+  formatMinimal,
+  formatGithub,
+  formatJunit,
+  formatSarif,
+} from "./reporters/index.js";
 
 // Dotenv utilities
 
@@ -142,8 +189,11 @@ export { formatPretty, formatJson, formatMinimal } from "./reporters/index.js";
 export {
   loadDotenv,
   loadDotenvFiles,
+  loadDotenvFilesWithDiagnostics,
   parseDotenv,
+  parseDotenvWithDiagnostics,
   expandDotenvVars,
+  expandDotenvVarsWithErrors,
 } from "./dotenv.js";
 
 // Schema composition utilities
@@ -186,9 +236,25 @@ export type {
   EnvSchema,
   InferEnv,
   EnvOptions,
+  EnvProfile,
+  ClientServerEnvOptions,
   ValidationError,
+  ValidationSeverity,
+  RequiredCondition,
   ValidationResult,
   GenerateOptions,
+  MarkdownDocsOptions,
+  TypeDeclarationsOptions,
+  ViteEnvDeclarationsOptions,
+  KubernetesOptions,
+  KubernetesManifests,
+  ComposeOptions,
+  JsonSchemaDocument,
+  JsonSchemaOptions,
+  JsonSchemaImportWarning,
+  JsonSchemaImportResult,
+  JsonSchemaCodeResult,
+  InferSchemaOptions,
   AnySchema,
   SchemaType,
   CoercionResult,
@@ -197,4 +263,11 @@ export type {
   CrossFieldValidationIssue,
   CrossFieldValidationResult,
   CrossFieldValidator,
+  SecretReference,
+  SecretResolver,
+  DotenvDiagnostic,
+  DotenvParseResult,
+  DotenvDiagnosticsMode,
+  DotenvLocation,
+  DotenvExpansionResult,
 } from "./types.js";
@@ -0,0 +1,82 @@
+/**
+ * EnvProof - Environment Profiles
+ * Select the rule set configured for the current environment
+ */
+
+import type { EnvOptions, EnvProfile } from "./types.js";
+
+/**
+ * Profile selected for an environment
+ */
+export interface ActiveProfile {
+  /** Key of the profile in `EnvOptions.profiles` */
+  name: string;
+  rules: EnvProfile;
+}
+
+/**
+ * Check whether an environment name matches a name or glob
+ * `*` matches any run of characters and `?` matches one
+ */
+export function matchesEnvironment(
+  pattern: string,
+  environment: string
+): boolean {
+  if (!isGlob(pattern)) {
+    return pattern === environment;
+  }
+
+  const source = Array.from(pattern, (char) => {
+    if (char === "*") return ".*";
+    if (char === "?") return ".";
+    return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  }).join("");
+
+  return new RegExp(`^${source}$`).test(environment);
+}
+
+/**
+ * Find the profile for the current environment
+ * A profile whose name or alias equals the environment wins over globs;
+ * otherwise the first matching profile is used
+ */
+export function findProfile(options: EnvOptions): ActiveProfile | undefined {
+  const { profiles, environment } = options;
+  if (!profiles || !environment) return undefined;
+
+  const entries = Object.entries(profiles);
+  const patternsOf = ([name, rules]: [string, EnvProfile]) => [
+    name,
+    ...(rules.aliases ?? []),
+  ];
+
+  const match =
+    entries.find((entry) => patternsOf(entry).includes(environment)) ??
+    entries.find((entry) =>
+      patternsOf(entry).some((pattern) =>
+        matchesEnvironment(pattern, environment)
+      )
+    );
+
+  return match && { name: match[0], rules: match[1] };
+}
+
+/**
+ * Get the names used for environment-specific .env files
+ * An environment selected through an alias also loads the files of its
+ * profile first, so `prod-eu` can share `.env.production`
+ */
+export function getDotenvNames(options: EnvOptions): string[] {
+  const { environment } = options;
+  if (!environment) return [];
+
+  const profile = findProfile(options);
+  return profile && profile.name !== environment && !isGlob(profile.name)
+    ? [profile.name, environment]
+    : [environment];
+}
+
+/** Check whether a profile name or alias contains glob characters */
+function isGlob(pattern: string): boolean {
+  return pattern.includes("*") || pattern.includes("?");
+}
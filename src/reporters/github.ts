@@ -0,0 +1,47 @@
+/**
+ * EnvProof - GitHub Actions Reporter
+ * Workflow commands that show errors as annotations
+ */
+
+import type { ValidationError } from "../types.js";
+import { isWarning } from "../validation/errors.js";
+
+/**
+ * Format validation errors as `::error` workflow commands, and warnings
+ * as `::warning`
+ * Errors with a known .env location are annotated on that line
+ */
+export function formatGithub(errors: ValidationError[]): string {
+  return errors
+    .map((error) => {
+      const properties = [
+        ...(error.location
+          ? [
+              `file=${escapeProperty(error.location.file ?? ".env")}`,
+              `line=${error.location.line}`,
+            ]
+          : []),
+        `title=${escapeProperty(`envproof: ${error.variable}`)}`,
+      ];
+
+      const command = isWarning(error) ? "warning" : "error";
+      return `::${command} ${properties.join(",")}::${escapeData(
+        `${error.message} (expected ${error.expected})`
+      )}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Escape a command message
+ */
+function escapeData(value: string): string {
+  return value.replace(/%/g, "%25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+/**
+ * Escape a command property value
+ */
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, "%3A").replace(/,/g, "%2C");
+}
@@ -5,3 +5,6 @@
 export { formatPretty } from "./pretty.js";
 export { formatJson } from "./json.js";
 export { formatMinimal } from "./minimal.js";
+export { formatGithub } from "./github.js";
+export { formatJunit } from "./junit.js";
+export { formatSarif } from "./sarif.js";
@@ -3,14 +3,20 @@
  * Machine-readable JSON error output for CI/CD
  */
 
-import type { ValidationError } from "../types.js";
+import type {
+  DotenvLocation,
+  ValidationError,
+  ValidationSeverity,
+} from "../types.js";
+import { isWarning } from "../validation/errors.js";
 
 /**
  * JSON output structure
  */
 interface JsonOutput {
-  success: false;
+  success: boolean;
   errorCount: number;
+  warningCount: number;
   errors: JsonError[];
 }
 
@@ -21,15 +27,23 @@ interface JsonError {
   expected: string;
   received?: string;
   isSecret: boolean;
+  location?: DotenvLocation;
+  suggestion?: string;
+  profile?: string;
+  severity?: ValidationSeverity;
 }
 
 /**
  * Format validation errors as JSON
+ * Warnings are listed with `"severity": "warning"` and do not count as
+ * errors
  */
 export function formatJson(errors: ValidationError[]): string {
+  const warningCount = errors.filter(isWarning).length;
   const output: JsonOutput = {
-    success: false,
-    errorCount: errors.length,
+    success: warningCount === errors.length,
+    errorCount: errors.length - warningCount,
+    warningCount,
     errors: errors.map((error) => ({
       variable: error.variable,
       reason: error.reason,
@@ -37,6 +51,12 @@ export function formatJson(errors: ValidationError[]): string {
       expected: error.expected,
       ...(error.received !== undefined ? { received: error.received } : {}),
       isSecret: error.isSecret,
+      ...(error.location !== undefined ? { location: error.location } : {}),
+      ...(error.suggestion !== undefined
+        ? { suggestion: error.suggestion }
+        : {}),
+      ...(error.profile !== undefined ? { profile: error.profile } : {}),
+      ...(isWarning(error) ? { severity: error.severity } : {}),
     })),
   };
 
@@ -0,0 +1,90 @@
+/**
+ * EnvProof - JUnit Reporter
+ * JUnit XML for CI test dashboards
+ */
+
+import type { EnvSchema, ValidationError } from "../types.js";
+import { flattenSchema } from "../schema/object.js";
+import { isWarning } from "../validation/errors.js";
+
+/**
+ * Format validation errors as a JUnit XML report
+ * Each variable is a testcase; with a schema, valid variables are
+ * reported as passing testcases. Warnings are not failures and are left out
+ */
+export function formatJunit(
+  errors: ValidationError[],
+  schema?: EnvSchema
+): string {
+  const byVariable = new Map<string, ValidationError[]>();
+  for (const [name] of schema ? flattenSchema(schema) : []) {
+    byVariable.set(name, []);
+  }
+  for (const error of errors.filter((error) => !isWarning(error))) {
+    byVariable.set(error.variable, [
+      ...(byVariable.get(error.variable) ?? []),
+      error,
+    ]);
+  }
+
+  const tests = byVariable.size;
+  const failures = [...byVariable.values()].filter(
+    (variableErrors) => variableErrors.length > 0
+  ).length;
+  const counts = `tests="${tests}" failures="${failures}" errors="0"`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="envproof" ${counts}>`,
+    `  <testsuite name="environment" ${counts}>`,
+  ];
+
+  for (const [variable, variableErrors] of byVariable) {
+    const name = `classname="envproof" name="${escapeXml(variable)}"`;
+    if (variableErrors.length === 0) {
+      lines.push(`    <testcase ${name}/>`);
+      continue;
+    }
+
+    lines.push(`    <testcase ${name}>`);
+    for (const error of variableErrors) {
+      lines.push(
+        `      <failure type="${error.reason}" message="${escapeXml(
+          error.message
+        )}">${escapeXml(formatDetails(error))}</failure>`
+      );
+    }
+    lines.push("    </testcase>");
+  }
+
+  lines.push("  </testsuite>", "</testsuites>", "");
+  return lines.join("\n");
+}
+
+/**
+ * Describe an error in the failure body
+ */
+function formatDetails(error: ValidationError): string {
+  const details = [`Expected: ${error.expected}`];
+  if (error.received !== undefined && !error.isSecret) {
+    details.push(`Received: ${error.received}`);
+  }
+  if (error.location) {
+    details.push(
+      `Defined at: ${error.location.file ?? ".env"}:${error.location.line}`
+    );
+  }
+  return details.join("\n");
+}
+
+/**
+ * Escape text for XML attributes and content
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
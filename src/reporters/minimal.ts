@@ -4,13 +4,43 @@
  */
 
 import type { ValidationError } from "../types.js";
+import { isWarning } from "../validation/errors.js";
 
 /**
  * Format validation errors as a minimal single line
+ * Warnings follow the errors, e.g. `...: PORT; 1 warning: API_KEY`
  */
 export function formatMinimal(errors: ValidationError[]): string {
-  const varNames = errors.map((e) => e.variable).join(", ");
-  return `EnvProof: ${errors.length} invalid environment variable${
-    errors.length === 1 ? "" : "s"
-  }: ${varNames}`;
+  const warnings = errors.filter(isWarning);
+  const failures = errors.filter((error) => !isWarning(error));
+  const parts: string[] = [];
+
+  if (failures.length > 0 || warnings.length === 0) {
+    parts.push(
+      `${failures.length} invalid environment variable${
+        failures.length === 1 ? "" : "s"
+      }: ${failures.map(formatVariable).join(", ")}`
+    );
+  }
+  if (warnings.length > 0) {
+    parts.push(
+      `${warnings.length} warning${warnings.length === 1 ? "" : "s"}: ${warnings
+        .map(formatVariable)
+        .join(", ")}`
+    );
+  }
+
+  return `EnvProof: ${parts.join("; ")}`;
+}
+
+/**
+ * Format a variable name with its suggestion, if any
+ */
+function formatVariable(error: ValidationError): string {
+  if (error.suggestion === undefined) {
+    return error.variable;
+  }
+  return error.reason === "missing"
+    ? `${error.variable} (found ${error.suggestion})`
+    : `${error.variable} (did you mean "${error.suggestion}"?)`;
 }
@@ -4,7 +4,11 @@
  */
 
 import type { ValidationError } from "../types.js";
-import { groupErrorsByReason } from "../validation/errors.js";
+import {
+  groupErrorsByReason,
+  describeSuggestion,
+  isWarning,
+} from "../validation/errors.js";
 
 // ANSI color codes
 const colors = {
@@ -32,40 +36,61 @@ const box = {
 
 /**
  * Format validation errors for terminal display
+ * Warnings are listed in their own section after the errors
  */
 export function formatPretty(errors: ValidationError[]): string {
   const lines: string[] = [];
   const width = 60;
 
+  const warnings = errors.filter(isWarning);
+  const failures = errors.filter((error) => !isWarning(error));
+  const color = failures.length > 0 ? colors.red : colors.yellow;
+  const title =
+    failures.length > 0
+      ? " Environment Validation Failed "
+      : " Environment Validation Warnings ";
+  const counts = [
+    ...(failures.length > 0 || warnings.length === 0
+      ? [`${failures.length} error${failures.length === 1 ? "" : "s"}`]
+      : []),
+    ...(warnings.length > 0
+      ? [`${warnings.length} warning${warnings.length === 1 ? "" : "s"}`]
+      : []),
+  ];
+  const profile = errors.find((error) => error.profile)?.profile;
+  const summary = `${counts.join(", ")} found${
+    profile !== undefined ? ` in profile "${profile}"` : ""
+  }`;
+
   // Header box
   lines.push("");
   lines.push(
-    `${colors.red}${box.topLeft}${box.horizontal.repeat(width)}${box.topRight}${
+    `${color}${box.topLeft}${box.horizontal.repeat(width)}${box.topRight}${
       colors.reset
     }`
   );
   lines.push(
-    `${colors.red}${box.vertical}${colors.reset}${centerText(
-      `${colors.red}${colors.bold} Environment Validation Failed ${colors.reset}`,
+    `${color}${box.vertical}${colors.reset}${centerText(
+      `${color}${colors.bold}${title}${colors.reset}`,
       width,
-      31 // text length without ANSI codes
-    )}${colors.red}${box.vertical}${colors.reset}`
+      title.length // text length without ANSI codes
+    )}${color}${box.vertical}${colors.reset}`
   );
   lines.push(
-    `${colors.red}${box.vertical}${colors.reset}${centerText(
-      `${errors.length} error${errors.length === 1 ? "" : "s"} found`,
+    `${color}${box.vertical}${colors.reset}${centerText(
+      summary,
       width
-    )}${colors.red}${box.vertical}${colors.reset}`
+    )}${color}${box.vertical}${colors.reset}`
   );
   lines.push(
-    `${colors.red}${box.bottomLeft}${box.horizontal.repeat(width)}${
+    `${color}${box.bottomLeft}${box.horizontal.repeat(width)}${
       box.bottomRight
     }${colors.reset}`
   );
   lines.push("");
 
   // Group errors by reason
-  const grouped = groupErrorsByReason(errors);
+  const grouped = groupErrorsByReason(failures);
 
   // Missing variables section
   const missing = grouped.get("missing") ?? [];
@@ -81,7 +106,19 @@ export function formatPretty(errors: ValidationError[]): string {
   const typeErrors = grouped.get("invalid_type") ?? [];
   const valueErrors = grouped.get("invalid_value") ?? [];
   const parseErrors = grouped.get("parse_error") ?? [];
-  const invalidValues = [...typeErrors, ...valueErrors, ...parseErrors];
+  const fileErrors = grouped.get("file_error") ?? [];
+  const resolverErrors = grouped.get("resolver_error") ?? [];
+  const expansionErrors = grouped.get("expansion_error") ?? [];
+  const aliasConflicts = grouped.get("alias_conflict") ?? [];
+  const invalidValues = [
+    ...typeErrors,
+    ...valueErrors,
+    ...parseErrors,
+    ...fileErrors,
+    ...resolverErrors,
+    ...expansionErrors,
+    ...aliasConflicts,
+  ];
 
   if (invalidValues.length > 0) {
     lines.push(...formatSection("INVALID VALUES", invalidValues));
@@ -95,6 +132,13 @@ export function formatPretty(errors: ValidationError[]): string {
     lines.push("");
   }
 
+  // Forbidden variables section
+  const forbidden = grouped.get("forbidden") ?? [];
+  if (forbidden.length > 0) {
+    lines.push(...formatSection("FORBIDDEN VARIABLES", forbidden));
+    lines.push("");
+  }
+
   // Cross-field validation section
   const crossField = grouped.get("cross_field") ?? [];
   if (crossField.length > 0) {
@@ -102,6 +146,12 @@ export function formatPretty(errors: ValidationError[]): string {
     lines.push("");
   }
 
+  // Warnings section
+  if (warnings.length > 0) {
+    lines.push(...formatSection("WARNINGS", warnings));
+    lines.push("");
+  }
+
   // Tip
   lines.push(
     `${colors.cyan}Tip:${colors.reset} Run ${colors.bold}npx envproof generate${colors.reset} to create a .env.example file`
@@ -161,6 +211,14 @@ function formatError(error: ValidationError): string[] {
     );
   }
 
+  // Did you mean...?
+  const hint = describeSuggestion(error);
+  if (hint !== undefined) {
+    lines.push(
+      `    ${colors.dim}${box.treeVertical}─${colors.reset} Hint:     ${colors.cyan}${hint}${colors.reset}`
+    );
+  }
+
   // Example
   if (error.example) {
     const exampleValue = error.isSecret
@@ -180,7 +238,9 @@ function formatError(error: ValidationError): string[] {
 function getStatusText(error: ValidationError): string {
   switch (error.reason) {
     case "missing":
-      return "Missing (required)";
+      return error.condition !== undefined
+        ? `Missing (required when ${error.condition})`
+        : "Missing (required)";
     case "empty":
       return "Empty value";
     case "invalid_type":
@@ -193,6 +253,17 @@ function getStatusText(error: ValidationError): string {
       return "Unknown variable";
     case "cross_field":
       return error.message;
+    case "file_error":
+      return "Unreadable file";
+    case "resolver_error":
+      return "Unresolved secret reference";
+    case "weak_secret":
+      return "Weak secret";
+    case "near_limit":
+    case "deprecated":
+      return error.message;
+    case "alias_conflict":
+      return "Conflicting legacy value";
     default:
       return error.message;
   }
@@ -0,0 +1,86 @@
+/**
+ * EnvProof - SARIF Reporter
+ * SARIF 2.1.0 logs for code scanning tools
+ */
+
+import * as path from "node:path";
+import type { ValidationError, ValidationErrorReason } from "../types.js";
+import { isWarning } from "../validation/errors.js";
+
+/** Rule descriptions, one rule per error reason */
+const RULES: Record<ValidationErrorReason, string> = {
+  missing: "Required environment variable is not set",
+  empty: "Environment variable is empty",
+  invalid_type: "Environment variable has the wrong type",
+  invalid_value: "Environment variable fails a validation rule",
+  parse_error: "Environment variable value cannot be parsed",
+  unknown: "Environment variable is not defined in the schema",
+  cross_field: "Environment variables fail a cross-field rule",
+  file_error: "Secret file cannot be read",
+  resolver_error: "Secret reference cannot be resolved",
+  expansion_error: "Variable reference cannot be expanded",
+  weak_secret: "Secret value is easy to guess",
+  near_limit: "Environment variable only just passes a validation rule",
+  deprecated: "Environment variable is deprecated",
+  alias_conflict: "Environment variable and its legacy name disagree",
+  forbidden: "Environment variable is forbidden in the active profile",
+};
+
+/**
+ * Format validation errors as a SARIF log
+ * Results point at the .env line that defined the value, when known
+ */
+export function formatSarif(errors: ValidationError[]): string {
+  const reasons = [...new Set(errors.map((error) => error.reason))];
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "envproof",
+            informationUri: "https://github.com/jayantpathariya/envproof",
+            rules: reasons.map((reason) => ({
+              id: reason,
+              shortDescription: { text: RULES[reason] },
+            })),
+          },
+        },
+        results: errors.map((error) => ({
+          ruleId: error.reason,
+          ruleIndex: reasons.indexOf(error.reason),
+          level: isWarning(error) ? "warning" : "error",
+          message: {
+            text: `${error.variable}: ${error.message} (expected ${error.expected})`,
+          },
+          ...(error.location && {
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: {
+                    uri: toUri(error.location.file ?? ".env"),
+                  },
+                  region: { startLine: error.location.line },
+                },
+              },
+            ],
+          }),
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
+
+/**
+ * Convert a file path to a URI relative to the working directory
+ */
+function toUri(file: string): string {
+  const relative = path.isAbsolute(file)
+    ? path.relative(process.cwd(), file)
+    : file;
+  return relative.split(path.sep).join("/");
+}
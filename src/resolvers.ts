@@ -0,0 +1,163 @@
+/**
+ * EnvProof - Secret Resolvers
+ * Resolve secret references like `secret://payments/stripe_key` at boot
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+  SecretReference,
+  SecretResolver,
+  ValidationError,
+} from "./types.js";
+import { createResolverError } from "./validation/errors.js";
+
+/** Matches `scheme://path` references */
+const REFERENCE_PATTERN = /^([a-z][a-z0-9+.-]*):\/\/(.*)$/i;
+
+/**
+ * Outcome of resolving the secret references in an environment source
+ */
+export interface SecretResolution {
+  /** Source with every resolvable reference replaced by its value */
+  source: Record<string, string | undefined>;
+  /** Variables whose value came from a resolver */
+  resolved: Set<string>;
+  /** Errors for references that failed to resolve */
+  errors: ValidationError[];
+}
+
+/**
+ * Parse a value as a secret reference
+ * Returns null when the value is not a `scheme://path` reference
+ */
+export function parseSecretReference(
+  variable: string,
+  value: string
+): SecretReference | null {
+  const match = value.trim().match(REFERENCE_PATTERN);
+  if (!match) return null;
+
+  const scheme = match[1];
+  const referencePath = match[2];
+  if (scheme === undefined || referencePath === undefined) return null;
+
+  return {
+    uri: value.trim(),
+    scheme: scheme.toLowerCase(),
+    path: referencePath,
+    variable,
+  };
+}
+
+/**
+ * Resolve secret references held by the given variables
+ * Only references whose scheme has a registered resolver are touched;
+ * all lookups run concurrently
+ */
+export async function resolveSecretReferences(
+  variables: string[],
+  source: Record<string, string | undefined>,
+  resolvers: Record<string, SecretResolver>
+): Promise<SecretResolution> {
+  const resolution: SecretResolution = {
+    source: { ...source },
+    resolved: new Set<string>(),
+    errors: [],
+  };
+
+  const lookups = variables.map(async (variable) => {
+    const value = source[variable];
+    if (value === undefined) return null;
+
+    const reference = parseSecretReference(variable, value);
+    const resolver = reference ? resolvers[reference.scheme] : undefined;
+    if (!reference || !resolver) return null;
+
+    try {
+      return { reference, value: await resolver.resolve(reference) };
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      return { reference, error: message };
+    }
+  });
+
+  // Apply outcomes in variable order so errors are reported deterministically
+  for (const outcome of await Promise.all(lookups)) {
+    if (!outcome) continue;
+
+    const { reference } = outcome;
+    if (outcome.error !== undefined) {
+      resolution.errors.push(
+        createResolverError(reference.variable, reference.uri, outcome.error)
+      );
+    } else {
+      resolution.source[reference.variable] = outcome.value;
+      resolution.resolved.add(reference.variable);
+    }
+  }
+
+  return resolution;
+}
+
+/**
+ * Create a resolver backed by local files, for development and tests
+ *
+ * - A `.json` location is read as a document; the reference path selects a
+ *   nested value (`payments/stripe_key` -> `doc.payments.stripe_key`)
+ * - Any other location is a directory; the reference path names a file
+ *   inside it whose contents (trailing newline trimmed) are the value
+ *
+ * @example
+ * ```typescript
+ * const env = await createEnvAsync(schema, {
+ *   resolvers: { secret: fileResolver("./secrets.json") },
+ * });
+ * ```
+ */
+export function fileResolver(location: string): SecretResolver {
+  const basePath = path.resolve(process.cwd(), location);
+
+  if (location.endsWith(".json")) {
+    let document: Promise<unknown> | undefined;
+
+    return {
+      async resolve(reference) {
+        document ??= fs.promises
+          .readFile(basePath, "utf-8")
+          .then((content) => JSON.parse(content) as unknown);
+
+        const value = reference.path
+          .split("/")
+          .filter((segment) => segment.length > 0)
+          .reduce<unknown>(
+            (node, segment) =>
+              node !== null && typeof node === "object"
+                ? (node as Record<string, unknown>)[segment]
+                : undefined,
+            await document
+          );
+
+        if (value === undefined || value === null) {
+          throw new Error(`"${reference.path}" not found in ${location}`);
+        }
+
+        return typeof value === "string" ? value : JSON.stringify(value);
+      },
+    };
+  }
+
+  return {
+    async resolve(reference) {
+      const filePath = path.resolve(basePath, reference.path);
+
+      // Never read outside the configured directory
+      if (!filePath.startsWith(`${basePath}${path.sep}`)) {
+        throw new Error(`"${reference.path}" is outside ${location}`);
+      }
+
+      const content = await fs.promises.readFile(filePath, "utf-8");
+      return content.replace(/\r?\n$/, "");
+    },
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * EnvProof - Schema Loader
+ * Find and import a module exporting a schema
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import type { AnySchema, EnvSchema } from "./types.js";
+
+export const DEFAULT_SCHEMA_PATHS = [
+  "env.config.ts",
+  "env.config.js",
+  "env.config.mjs",
+  "src/env.config.ts",
+  "src/env.config.js",
+  "config/env.ts",
+  "config/env.js",
+] as const;
+
+export interface LoadedSchema {
+  schema: EnvSchema;
+  path: string;
+}
+
+export interface LoadSchemaOptions {
+  /** Directory search paths are resolved from (default: process.cwd()) */
+  cwd?: string;
+
+  /**
+   * Called when a module fails to import, after which the search goes on
+   * (default: the error is thrown)
+   */
+  onError?: (searchPath: string, error: unknown) => void;
+}
+
+/**
+ * Return search paths for schema discovery.
+ */
+export function getSchemaSearchPaths(schemaPath?: string): string[] {
+  if (schemaPath) {
+    return [schemaPath];
+  }
+  return [...DEFAULT_SCHEMA_PATHS];
+}
+
+/**
+ * Load schema from file path(s).
+ * Returns the first module exporting a schema as `default`, `schema` or
+ * `env`, or null when none does
+ */
+export async function loadSchema(
+  schemaPath?: string,
+  options: LoadSchemaOptions = {}
+): Promise<LoadedSchema | null> {
+  const { cwd = process.cwd(), onError } = options;
+
+  for (const searchPath of getSchemaSearchPaths(schemaPath)) {
+    const absolutePath = path.resolve(cwd, searchPath);
+    if (!fs.existsSync(absolutePath)) {
+      continue;
+    }
+
+    let module: Record<string, unknown>;
+    try {
+      module = await import(pathToFileURL(absolutePath).href);
+    } catch (error) {
+      if (!onError) {
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        throw new Error(
+          `Failed to load schema from ${searchPath}: ${message}`,
+          { cause: error }
+        );
+      }
+      onError(searchPath, error);
+      continue;
+    }
+
+    const candidate = module.default ?? module.schema ?? module.env;
+    if (isEnvSchema(candidate)) {
+      return { schema: candidate, path: absolutePath };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Runtime guard for schema-like objects.
+ */
+function isEnvSchema(value: unknown): value is EnvSchema {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) {
+    return false;
+  }
+
+  for (const [, schema] of entries) {
+    if (!isSchemaField(schema)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function isSchemaField(value: unknown): value is AnySchema {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+
+  const candidate = value as Partial<AnySchema>;
+  return (
+    typeof candidate.getTypeDescription === "function" &&
+    typeof candidate.getExample === "function" &&
+    typeof candidate._def === "object"
+  );
+}
@@ -54,6 +54,20 @@ export class ArraySchema<
     return cloned;
   }
 
+  /**
+   * Get the schema each item is validated against
+   */
+  getItemSchema(): AnySchema {
+    return this.itemSchema;
+  }
+
+  /**
+   * Get the separator character used to split values
+   */
+  getSeparator(): string {
+    return this.separatorChar;
+  }
+
   /**
    * Require minimum number of items
    */
@@ -61,7 +75,8 @@ export class ArraySchema<
     return this.refine(
       (value) => value.length >= min,
       `Must have at least ${min} item${min === 1 ? "" : "s"}`,
-      "minLength"
+      "minLength",
+      { value: min }
     );
   }
 
@@ -72,7 +87,8 @@ export class ArraySchema<
     return this.refine(
       (value) => value.length <= max,
       `Must have at most ${max} item${max === 1 ? "" : "s"}`,
-      "maxLength"
+      "maxLength",
+      { value: max }
     );
   }
 
@@ -83,6 +99,22 @@ export class ArraySchema<
     return this.minLength(1);
   }
 
+  /**
+   * Mark this variable as optional
+   * Keeps ArraySchema builder methods available after the call
+   */
+  override optional(): ArraySchema<T, true> {
+    return super.optional() as unknown as ArraySchema<T, true>;
+  }
+
+  /**
+   * Set a default value
+   * Keeps ArraySchema builder methods available after the call
+   */
+  override default(value: T[]): ArraySchema<T, false> {
+    return super.default(value) as unknown as ArraySchema<T, false>;
+  }
+
   /**
    * Coerce string to array
    */
@@ -131,6 +163,17 @@ export class ArraySchema<
   }
 }
 
+/**
+ * Check whether a schema is an array schema
+ * Checks the definition, so arrays built by another copy of envproof
+ * (such as a separately bundled entry point) are recognised too
+ */
+export function isArraySchema(
+  schema: AnySchema
+): schema is ArraySchema<unknown, boolean> {
+  return schema._def.type === "array";
+}
+
 /**
  * Create a new array schema
  * @param itemSchema - Schema for each item in the array
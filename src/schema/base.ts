@@ -8,6 +8,7 @@ import type {
   ValidationRule,
   CoercionResult,
   SchemaType,
+  RequiredCondition,
 } from "../types.js";
 
 /**
@@ -64,6 +65,22 @@ export abstract class BaseSchema<T, Optional extends boolean = false> {
     }) as unknown as BaseSchema<T, false>;
   }
 
+  /**
+   * Set default values for specific environments
+   * The default for `EnvOptions.environment` wins over `.default()` and
+   * `.optional()`; other environments fall back to them
+   *
+   * @example
+   * ```typescript
+   * PORT: e.number().default(3000).defaultFor({ test: 0, production: 80 })
+   * ```
+   */
+  defaultFor(defaults: Record<string, T>): this {
+    return this.clone({
+      environmentDefaults: { ...this._def.environmentDefaults, ...defaults },
+    });
+  }
+
   /**
    * Mark this variable as a secret
    * Secret values are masked in error output
@@ -74,6 +91,89 @@ export abstract class BaseSchema<T, Optional extends boolean = false> {
     });
   }
 
+  /**
+   * Allow reading this variable from a file
+   * When `NAME_FILE` is set, the value is read from that path
+   * (trailing newline trimmed) and treated as a secret
+   */
+  fromFile(): this {
+    return this.clone({ fromFile: true });
+  }
+
+  /**
+   * Require this variable when another variable has one of the given values
+   * The other variable is read from the raw source by its full name
+   *
+   * @example
+   * ```typescript
+   * OAUTH_CLIENT_ID: e.string().optional().requiredIf("AUTH_MODE", "oauth")
+   * ```
+   */
+  requiredIf(variable: string, value: string | readonly string[]): this {
+    const values: readonly string[] =
+      typeof value === "string" ? [value] : value;
+    const quoted = values.map((v) => `"${v}"`);
+    const description =
+      quoted.length === 1
+        ? `${variable} is ${quoted[0]}`
+        : `${variable} is one of ${quoted.join(", ")}`;
+
+    return this.requiredWhen(
+      (raw) => values.includes(raw[variable]?.trim() ?? ""),
+      description
+    );
+  }
+
+  /**
+   * Require this variable when a predicate over the raw source holds
+   * While a condition holds, `.optional()` and `.default()` do not apply
+   *
+   * @param description - Explains the condition in missing-variable errors
+   * @example
+   * ```typescript
+   * FEATURE_X_KEY: e
+   *   .string()
+   *   .optional()
+   *   .requiredWhen((raw) => raw.FEATURE_X === "true", "FEATURE_X is on")
+   * ```
+   */
+  requiredWhen(
+    predicate: RequiredCondition["test"],
+    description: string = "a custom condition holds"
+  ): this {
+    return this.clone({
+      requiredWhen: [
+        ...(this._def.requiredWhen ?? []),
+        { description, test: predicate },
+      ],
+    });
+  }
+
+  /**
+   * Mark this variable as deprecated
+   * It still works, but setting it reports a `deprecated` warning
+   */
+  deprecated(message: string = "This variable is deprecated"): this {
+    return this.clone({
+      metadata: { ...this._def.metadata, deprecated: message },
+    });
+  }
+
+  /**
+   * Read legacy names when this variable is not set
+   * Names are relative to the variable's prefix, like its own key. Using
+   * one reports a `deprecated` warning, and setting a legacy name to a
+   * different value than the new one is an error
+   *
+   * @example
+   * ```typescript
+   * DATABASE_URL: e.url().renamedFrom("DB_URL", "POSTGRES_URL")
+   * ```
+   */
+  renamedFrom(...names: string[]): this {
+    return this.clone({ aliases: [...(this._def.aliases ?? []), ...names] });
+  }
+
   /**
    * Add a description for documentation
    * Used in .env.example generation and error messages
@@ -96,14 +196,19 @@ export abstract class BaseSchema<T, Optional extends boolean = false> {
 
   /**
    * Add a custom validation rule
+   * `params` records the rule's arguments for exporters
    */
   refine(
     validate: (value: T) => boolean,
     message: string,
-    name: string = "custom"
+    name: string = "custom",
+    params?: Record<string, unknown>
   ): this {
     return this.clone({
-      rules: [...this._def.rules, { name, message, validate }],
+      rules: [
+        ...this._def.rules,
+        { name, message, validate, ...(params && { params }) },
+      ],
     });
   }
 
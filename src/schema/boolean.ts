@@ -19,6 +19,22 @@ export class BooleanSchema<Optional extends boolean = false> extends BaseSchema<
     super("boolean", coerceBoolean);
   }
 
+  /**
+   * Mark this variable as optional
+   * Keeps BooleanSchema builder methods available after the call
+   */
+  override optional(): BooleanSchema<true> {
+    return super.optional() as unknown as BooleanSchema<true>;
+  }
+
+  /**
+   * Set a default value
+   * Keeps BooleanSchema builder methods available after the call
+   */
+  override default(value: boolean): BooleanSchema<false> {
+    return super.default(value) as unknown as BooleanSchema<false>;
+  }
+
   override getTypeDescription(): string {
     return "boolean (true/false, 1/0, yes/no, on/off)";
   }
@@ -0,0 +1,206 @@
+/**
+ * EnvProof - Discriminated Schema
+ * Schema for variable sets selected by a discriminator variable
+ */
+
+import { EnumSchema } from "./enum.js";
+import type {
+  AnySchema,
+  AnySchemaDefinition,
+  CoercionResult,
+  EnvSchema,
+  InferEnv,
+} from "../types.js";
+
+/** Infer the discriminated union produced by a set of branches */
+export type InferBranches<
+  D extends string,
+  B extends Record<string, EnvSchema>,
+> = {
+  [K in keyof B & string]: { readonly [P in D]: K } & InferEnv<B[K]>;
+}[keyof B & string];
+
+/**
+ * Schema for a set of variables chosen by the value of another variable
+ * Only the branch selected by the discriminator is validated
+ *
+ * @example
+ * ```typescript
+ * const env = createEnv({
+ *   storage: e.discriminate("STORAGE_DRIVER", {
+ *     s3: { S3_BUCKET: e.string(), S3_REGION: e.string() },
+ *     local: { STORAGE_PATH: e.path() },
+ *   }),
+ * });
+ *
+ * if (env.storage.STORAGE_DRIVER === "s3") {
+ *   env.storage.S3_BUCKET; // string
+ * }
+ * ```
+ */
+export class DiscriminatedSchema<
+  D extends string,
+  B extends Record<string, EnvSchema>,
+  Optional extends boolean = false,
+> implements AnySchema {
+  /** Type brand for inference */
+  declare readonly _output: InferBranches<D, B>;
+  declare readonly _optional: Optional;
+
+  /** Internal schema definition */
+  readonly _def: AnySchemaDefinition;
+
+  private _discriminator: D;
+  private _branches: B;
+  private _discriminatorSchema: AnySchema;
+
+  constructor(discriminator: D, branches: B) {
+    const branchNames = Object.keys(branches);
+    this._discriminator = discriminator;
+    this._branches = branches;
+    this._discriminatorSchema = new EnumSchema(branchNames);
+    this._def = {
+      type: "discriminated",
+      isOptional: false,
+      metadata: { isSecret: false },
+      rules: [],
+      coerce: coerceDiscriminated,
+      enumValues: branchNames,
+    };
+  }
+
+  /**
+   * Clone the schema with updated definition
+   */
+  protected clone(updates: Partial<AnySchemaDefinition>): this {
+    const cloned = Object.create(Object.getPrototypeOf(this));
+    cloned._def = { ...this._def, ...updates };
+    cloned._discriminator = this._discriminator;
+    cloned._branches = this._branches;
+    cloned._discriminatorSchema = this._discriminatorSchema;
+    return cloned;
+  }
+
+  /**
+   * Get the name of the variable that selects the branch
+   */
+  get discriminator(): D {
+    return this._discriminator;
+  }
+
+  /**
+   * Get the variable sets keyed by discriminator value
+   */
+  get branches(): B {
+    return this._branches;
+  }
+
+  /**
+   * Get the schema used to validate the discriminator variable
+   */
+  get discriminatorSchema(): AnySchema {
+    return this._discriminatorSchema;
+  }
+
+  /**
+   * Clone the set with replaced branches and discriminator schema
+   * Used to apply per-variable rules without losing the set's settings
+   */
+  withBranches(
+    branches: B,
+    discriminatorSchema: AnySchema = this._discriminatorSchema
+  ): this {
+    const cloned = this.clone({});
+    cloned._branches = branches;
+    cloned._discriminatorSchema = discriminatorSchema;
+    return cloned;
+  }
+
+  /**
+   * Mark the whole set as optional
+   * Resolves to undefined when the discriminator is not set
+   */
+  optional(): DiscriminatedSchema<D, B, true> {
+    const cloned = this.clone({ isOptional: true });
+    cloned._discriminatorSchema = (
+      this._discriminatorSchema as EnumSchema<string[]>
+    ).optional();
+    return cloned as unknown as DiscriminatedSchema<D, B, true>;
+  }
+
+  /**
+   * Select a branch when the discriminator is not set
+   */
+  default(branch: keyof B & string): DiscriminatedSchema<D, B, false> {
+    const cloned = this.clone({ isOptional: false, defaultValue: branch });
+    cloned._discriminatorSchema = (
+      this._discriminatorSchema as EnumSchema<string[]>
+    ).default(branch);
+    return cloned as unknown as DiscriminatedSchema<D, B, false>;
+  }
+
+  /**
+   * Add a description for documentation
+   * Used as the section header in .env.example generation
+   */
+  description(text: string): this {
+    const cloned = this.clone({
+      metadata: { ...this._def.metadata, description: text },
+    });
+    cloned._discriminatorSchema = (
+      this._discriminatorSchema as EnumSchema<string[]>
+    ).description(text);
+    return cloned;
+  }
+
+  getTypeDescription(): string {
+    return `one of (${Object.keys(this._branches).join(" | ")}) by ${this._discriminator}`;
+  }
+
+  getExample(): string {
+    return this._discriminatorSchema.getExample();
+  }
+}
+
+/**
+ * Discriminated sets are resolved from their branch variables, never from a
+ * single string value
+ */
+function coerceDiscriminated(): CoercionResult<never> {
+  return {
+    success: false,
+    error: "Discriminated schemas are resolved from their branch variables",
+  };
+}
+
+/**
+ * Check whether a schema is a discriminated set
+ */
+export function isDiscriminatedSchema(
+  schema: AnySchema
+): schema is DiscriminatedSchema<string, Record<string, EnvSchema>, boolean> {
+  return schema._def.type === "discriminated";
+}
+
+/**
+ * Create a new discriminated schema
+ * @param discriminator - Variable whose value selects the branch
+ * @param branches - Variable sets keyed by discriminator value
+ *
+ * @example
+ * ```typescript
+ * e.discriminate("STORAGE_DRIVER", {
+ *   s3: { S3_BUCKET: e.string(), S3_REGION: e.string() },
+ *   local: { STORAGE_PATH: e.path() },
+ * }).default("local")
+ * ```
+ */
+export function discriminate<
+  D extends string,
+  B extends Record<string, EnvSchema>,
+>(discriminator: D, branches: B): DiscriminatedSchema<D, B> {
+  if (Object.keys(branches).length === 0) {
+    throw new Error("Discriminated schema must have at least one branch");
+  }
+  return new DiscriminatedSchema(discriminator, branches);
+}
@@ -32,7 +32,7 @@ const DURATION_UNITS: Record<string, number> = {
 /**
  * Parse a duration string to milliseconds
  */
-function parseDuration(value: string): number | null {
+export function parseDuration(value: string): number | null {
   const trimmed = value.trim().toLowerCase();
 
   // Try to parse as pure number (assume milliseconds)
@@ -57,6 +57,20 @@ function parseDuration(value: string): number | null {
   return num * multiplier;
 }
 
+/**
+ * Convert a duration default to milliseconds
+ */
+function toDefaultMs(value: string | number): number {
+  const defaultMs =
+    typeof value === "string" ? (parseDuration(value) ?? 0) : value;
+
+  if (defaultMs < 0) {
+    throw new Error("Duration default must be non-negative");
+  }
+
+  return defaultMs;
+}
+
 /**
  * Schema for duration environment variables
  * Parses duration strings like "1h", "30m", "5s" to milliseconds
@@ -83,25 +97,41 @@ export class DurationSchema<
     super("duration", coerceDuration);
   }
 
+  /**
+   * Mark this variable as optional
+   * Keeps DurationSchema builder methods available after the call
+   */
+  override optional(): DurationSchema<true> {
+    return super.optional() as unknown as DurationSchema<true>;
+  }
+
   /**
    * Set a default value
    * Accepts duration string (e.g., "24h") or milliseconds
    * @param value - Duration string or number in milliseconds
    */
   override default(value: string | number): DurationSchema<false> {
-    const defaultMs =
-      typeof value === "string" ? (parseDuration(value) ?? 0) : value;
-
-    if (defaultMs < 0) {
-      throw new Error("Duration default must be non-negative");
-    }
-
     return this.clone({
       isOptional: false,
-      defaultValue: defaultMs,
+      defaultValue: toDefaultMs(value),
     }) as unknown as DurationSchema<false>;
   }
 
+  /**
+   * Set default values for specific environments
+   * Accepts duration strings (e.g., "24h") or milliseconds
+   */
+  override defaultFor(defaults: Record<string, string | number>): this {
+    return super.defaultFor(
+      Object.fromEntries(
+        Object.entries(defaults).map(([env, value]) => [
+          env,
+          toDefaultMs(value),
+        ])
+      )
+    );
+  }
+
   /**
    * Require minimum duration
    * @param duration - Duration string (e.g., "1m") or milliseconds
@@ -112,7 +142,8 @@ export class DurationSchema<
     return this.refine(
       (value) => value >= minMs,
       `Must be at least ${typeof duration === "string" ? duration : `${duration}ms`}`,
-      "min"
+      "min",
+      { value: minMs }
     );
   }
 
@@ -128,7 +159,8 @@ export class DurationSchema<
     return this.refine(
       (value) => value <= maxMs,
       `Must be at most ${typeof duration === "string" ? duration : `${duration}ms`}`,
-      "max"
+      "max",
+      { value: maxMs }
     );
   }
 
@@ -5,6 +5,7 @@
 
 import { BaseSchema } from "./base.js";
 import type { CoercionResult, SchemaDefinition } from "../types.js";
+import { findClosestMatch } from "../validation/suggest.js";
 
 /**
  * Schema for enum environment variables
@@ -38,6 +39,22 @@ export class EnumSchema<
     return this._values;
   }
 
+  /**
+   * Mark this variable as optional
+   * Keeps the enum value types after the call
+   */
+  override optional(): EnumSchema<T, true> {
+    return super.optional() as unknown as EnumSchema<T, true>;
+  }
+
+  /**
+   * Set a default value
+   * Keeps the enum value types after the call
+   */
+  override default(value: T[number]): EnumSchema<T, false> {
+    return super.default(value) as unknown as EnumSchema<T, false>;
+  }
+
   override getTypeDescription(): string {
     return `enum (${this._values.join(" | ")})`;
   }
@@ -60,9 +77,11 @@ function createEnumCoercer<T extends readonly string[]>(
       return { success: true, value: trimmed as T[number] };
     }
 
+    const suggestion = findClosestMatch(trimmed, values);
     return {
       success: false,
       error: `Invalid value "${value}". Must be one of: ${values.join(", ")}`,
+      ...(suggestion !== undefined && { suggestion }),
     };
   };
 }
@@ -12,4 +12,7 @@ export { json, JsonSchema } from "./json.js";
 export { array, ArraySchema } from "./array.js";
 export { duration, DurationSchema } from "./duration.js";
 export { path, PathSchema } from "./path.js";
+export { object, ObjectSchema } from "./object.js";
+export { union, UnionSchema } from "./union.js";
+export { discriminate, DiscriminatedSchema } from "./discriminate.js";
 export { BaseSchema } from "./base.js";
@@ -48,6 +48,22 @@ export class JsonSchema<
     );
   }
 
+  /**
+   * Mark this variable as optional
+   * Keeps JsonSchema builder methods available after the call
+   */
+  override optional(): JsonSchema<T, true> {
+    return super.optional() as unknown as JsonSchema<T, true>;
+  }
+
+  /**
+   * Set a default value
+   * Keeps JsonSchema builder methods available after the call
+   */
+  override default(value: T): JsonSchema<T, false> {
+    return super.default(value) as unknown as JsonSchema<T, false>;
+  }
+
   override getTypeDescription(): string {
     return "JSON";
   }
@@ -50,7 +50,8 @@ export class NumberSchema<Optional extends boolean = false> extends BaseSchema<
     const cloned = this.refine(
       (value) => value >= min,
       `Must be at least ${min}`,
-      "min"
+      "min",
+      { value: min }
     );
     cloned._min = min;
     return cloned;
@@ -63,7 +64,8 @@ export class NumberSchema<Optional extends boolean = false> extends BaseSchema<
     const cloned = this.refine(
       (value) => value <= max,
       `Must be at most ${max}`,
-      "max"
+      "max",
+      { value: max }
     );
     cloned._max = max;
     return cloned;
@@ -97,6 +99,22 @@ export class NumberSchema<Optional extends boolean = false> extends BaseSchema<
     return this.min(min).max(max);
   }
 
+  /**
+   * Mark this variable as optional
+   * Keeps NumberSchema builder methods available after the call
+   */
+  override optional(): NumberSchema<true> {
+    return super.optional() as unknown as NumberSchema<true>;
+  }
+
+  /**
+   * Set a default value
+   * Keeps NumberSchema builder methods available after the call
+   */
+  override default(value: number): NumberSchema<false> {
+    return super.default(value) as unknown as NumberSchema<false>;
+  }
+
   override getTypeDescription(): string {
     const parts: string[] = [];
 
@@ -0,0 +1,226 @@
+/**
+ * EnvProof - Object Schema
+ * Schema for groups of prefixed environment variables
+ */
+
+import type {
+  AnySchema,
+  AnySchemaDefinition,
+  CoercionResult,
+  EnvSchema,
+  InferEnv,
+} from "../types.js";
+import { isDiscriminatedSchema } from "./discriminate.js";
+
+/**
+ * Schema for a group of related environment variables
+ * Each nested key is read from `${prefix}${key}` and the results are
+ * returned as a nested object
+ *
+ * @example
+ * ```typescript
+ * // DB_HOST=localhost
+ * // DB_PORT=5432
+ * const env = createEnv({
+ *   db: e.object({ HOST: e.string(), PORT: e.number() }, { prefix: "DB_" }),
+ * });
+ * env.db.PORT; // 5432
+ * ```
+ */
+export class ObjectSchema<
+  S extends EnvSchema,
+  Optional extends boolean = false,
+> implements AnySchema {
+  /** Type brand for inference */
+  declare readonly _output: InferEnv<S>;
+  declare readonly _optional: Optional;
+
+  /** Internal schema definition */
+  readonly _def: AnySchemaDefinition;
+
+  constructor(shape: S, prefix: string = "") {
+    this._def = {
+      type: "object",
+      isOptional: false,
+      metadata: { isSecret: false },
+      rules: [],
+      coerce: coerceObject,
+      shape,
+      prefix,
+    };
+  }
+
+  /**
+   * Clone the schema with updated definition
+   */
+  protected clone(updates: Partial<AnySchemaDefinition>): this {
+    const cloned = Object.create(Object.getPrototypeOf(this));
+    cloned._def = { ...this._def, ...updates };
+    return cloned;
+  }
+
+  /**
+   * Get the nested schemas
+   */
+  get shape(): S {
+    return this._def.shape as S;
+  }
+
+  /**
+   * Get the variable name prefix for this group
+   */
+  get prefix(): string {
+    return this._def.prefix ?? "";
+  }
+
+  /**
+   * Clone the group with a replaced shape
+   * Used to apply per-variable rules without losing the group's settings
+   */
+  withShape(shape: S): this {
+    return this.clone({ shape });
+  }
+
+  /**
+   * Mark the whole group as optional
+   * The group resolves to undefined when none of its variables are set
+   */
+  optional(): ObjectSchema<S, true> {
+    return this.clone({ isOptional: true }) as unknown as ObjectSchema<S, true>;
+  }
+
+  /**
+   * Add a description for documentation
+   * Used as the section header in .env.example generation
+   */
+  description(text: string): this {
+    return this.clone({
+      metadata: { ...this._def.metadata, description: text },
+    });
+  }
+
+  getTypeDescription(): string {
+    return this.prefix ? `object (${this.prefix}*)` : "object";
+  }
+
+  getExample(): string {
+    return "";
+  }
+}
+
+/**
+ * Object groups are resolved from their nested variables, never from a
+ * single string value
+ */
+function coerceObject(): CoercionResult<never> {
+  return {
+    success: false,
+    error: "Object schemas are resolved from their nested variables",
+  };
+}
+
+/**
+ * Check whether a schema is an object group
+ */
+export function isObjectSchema(
+  schema: AnySchema
+): schema is ObjectSchema<EnvSchema, boolean> {
+  return schema._def.type === "object" && schema._def.shape !== undefined;
+}
+
+/**
+ * Flatten a schema into its leaf variables keyed by full variable name
+ * Object groups are expanded recursively with their prefixes applied and
+ * discriminated sets contribute their discriminator plus every branch
+ */
+export function flattenSchema(
+  schema: EnvSchema,
+  prefix: string = ""
+): Array<[string, AnySchema]> {
+  const entries = new Map<string, AnySchema>();
+
+  for (const [key, fieldSchema] of Object.entries(schema)) {
+    if (isObjectSchema(fieldSchema)) {
+      for (const [name, leaf] of flattenSchema(
+        fieldSchema.shape,
+        `${prefix}${fieldSchema.prefix}`
+      )) {
+        entries.set(name, entries.get(name) ?? leaf);
+      }
+    } else if (isDiscriminatedSchema(fieldSchema)) {
+      entries.set(
+        `${prefix}${fieldSchema.discriminator}`,
+        fieldSchema.discriminatorSchema
+      );
+      for (const branch of Object.values(fieldSchema.branches)) {
+        for (const [name, leaf] of flattenSchema(branch, prefix)) {
+          entries.set(name, entries.get(name) ?? leaf);
+        }
+      }
+    } else {
+      entries.set(`${prefix}${key}`, fieldSchema);
+    }
+  }
+
+  return [...entries];
+}
+
+/**
+ * Rebuild a schema with each leaf variable passed through `update`
+ * Leaves are named as flattenSchema names them, so rules keyed by variable
+ * name reach variables inside groups and discriminated branches
+ */
+export function mapSchema<S extends EnvSchema>(
+  schema: S,
+  update: (name: string, leaf: AnySchema) => AnySchema,
+  prefix: string = ""
+): S {
+  const mapped: Record<string, AnySchema> = {};
+
+  for (const [key, fieldSchema] of Object.entries(schema)) {
+    if (isObjectSchema(fieldSchema)) {
+      mapped[key] = fieldSchema.withShape(
+        mapSchema(fieldSchema.shape, update, `${prefix}${fieldSchema.prefix}`)
+      );
+    } else if (isDiscriminatedSchema(fieldSchema)) {
+      const branches: Record<string, EnvSchema> = {};
+      for (const [name, branch] of Object.entries(fieldSchema.branches)) {
+        branches[name] = mapSchema(branch, update, prefix);
+      }
+      mapped[key] = fieldSchema.withBranches(
+        branches,
+        update(
+          `${prefix}${fieldSchema.discriminator}`,
+          fieldSchema.discriminatorSchema
+        )
+      );
+    } else {
+      mapped[key] = update(`${prefix}${key}`, fieldSchema);
+    }
+  }
+
+  return mapped as S;
+}
+
+/**
+ * Create a new object schema
+ * @param shape - Schemas for the nested variables
+ * @param options.prefix - Prefix prepended to each nested variable name
+ *
+ * @example
+ * ```typescript
+ * e.object({ HOST: e.string(), PORT: e.number().port() }, { prefix: "DB_" })
+ *
+ * // Groups nest recursively; prefixes are concatenated
+ * e.object(
+ *   { PRIMARY: e.object({ HOST: e.string() }, { prefix: "PRIMARY_" }) },
+ *   { prefix: "DB_" }
+ * ) // reads DB_PRIMARY_HOST
+ * ```
+ */
+export function object<S extends EnvSchema>(
+  shape: S,
+  options: { prefix?: string } = {}
+): ObjectSchema<S> {
+  return new ObjectSchema(shape, options.prefix);
+}
@@ -152,10 +152,27 @@ export class PathSchema<Optional extends boolean = false> extends BaseSchema<
         return normalized.some((e) => e.toLowerCase() === fileExt);
       },
       `Must have extension: ${normalized.join(", ")}`,
-      "extension"
+      "extension",
+      { extensions: normalized }
     );
   }
 
+  /**
+   * Mark this variable as optional
+   * Keeps PathSchema builder methods available after the call
+   */
+  override optional(): PathSchema<true> {
+    return super.optional() as unknown as PathSchema<true>;
+  }
+
+  /**
+   * Set a default value
+   * Keeps PathSchema builder methods available after the call
+   */
+  override default(value: string): PathSchema<false> {
+    return super.default(value) as unknown as PathSchema<false>;
+  }
+
   override getTypeDescription(): string {
     const rules = this._def.rules;
     const modifiers: string[] = [];
@@ -25,7 +25,8 @@ export class StringSchema<Optional extends boolean = false> extends BaseSchema<
     return this.refine(
       (value) => value.length >= min,
       `Must be at least ${min} characters`,
-      "minLength"
+      "minLength",
+      { value: min }
     );
   }
 
@@ -36,7 +37,8 @@ export class StringSchema<Optional extends boolean = false> extends BaseSchema<
     return this.refine(
       (value) => value.length <= max,
       `Must be at most ${max} characters`,
-      "maxLength"
+      "maxLength",
+      { value: max }
     );
   }
 
@@ -47,7 +49,8 @@ export class StringSchema<Optional extends boolean = false> extends BaseSchema<
     return this.refine(
       (value) => value.length === len,
       `Must be exactly ${len} characters`,
-      "length"
+      "length",
+      { value: len }
     );
   }
 
@@ -58,7 +61,8 @@ export class StringSchema<Optional extends boolean = false> extends BaseSchema<
     return this.refine(
       (value) => regex.test(value),
       message ?? `Must match pattern ${regex.source}`,
-      "pattern"
+      "pattern",
+      { pattern: regex.source, flags: regex.flags }
     );
   }
 
@@ -80,7 +84,8 @@ export class StringSchema<Optional extends boolean = false> extends BaseSchema<
     return this.refine(
       (value) => value.startsWith(prefix),
       `Must start with "${prefix}"`,
-      "startsWith"
+      "startsWith",
+      { value: prefix }
     );
   }
 
@@ -91,7 +96,8 @@ export class StringSchema<Optional extends boolean = false> extends BaseSchema<
     return this.refine(
       (value) => value.endsWith(suffix),
       `Must end with "${suffix}"`,
-      "endsWith"
+      "endsWith",
+      { value: suffix }
     );
   }
 
@@ -144,10 +150,27 @@ export class StringSchema<Optional extends boolean = false> extends BaseSchema<
         return false;
       },
       `Must be a valid IP${version !== "any" ? version.toUpperCase() : ""} address`,
-      "ip"
+      "ip",
+      { version }
     );
   }
 
+  /**
+   * Mark this variable as optional
+   * Keeps StringSchema builder methods available after the call
+   */
+  override optional(): StringSchema<true> {
+    return super.optional() as unknown as StringSchema<true>;
+  }
+
+  /**
+   * Set a default value
+   * Keeps StringSchema builder methods available after the call
+   */
+  override default(value: string): StringSchema<false> {
+    return super.default(value) as unknown as StringSchema<false>;
+  }
+
   override getTypeDescription(): string {
     const rules = this._def.rules;
     const parts: string[] = ["string"];
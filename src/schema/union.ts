@@ -0,0 +1,130 @@
+/**
+ * EnvProof - Union Schema
+ * Schema for values that may take one of several shapes
+ */
+
+import { BaseSchema } from "./base.js";
+import type { AnySchema, CoercionResult } from "../types.js";
+
+/**
+ * Schema for union environment variables
+ * Tries each member schema in order and uses the first that accepts the value
+ *
+ * @example
+ * ```typescript
+ * // REDIS=redis://localhost:6379 or REDIS=/var/run/redis.sock
+ * e.union([e.url(), e.path()])
+ *
+ * // TIMEOUT=30s or TIMEOUT=infinite
+ * e.union([e.duration(), e.enum(["infinite"] as const)])
+ * ```
+ */
+export class UnionSchema<
+  M extends readonly AnySchema[],
+  Optional extends boolean = false,
+> extends BaseSchema<M[number]["_output"], Optional> {
+  private _members: M;
+
+  constructor(members: M) {
+    super("union", createUnionCoercer(members));
+    this._members = members;
+  }
+
+  protected override clone(updates: Partial<typeof this._def>): this {
+    const cloned = super.clone(updates);
+    cloned._members = this._members;
+    return cloned;
+  }
+
+  /**
+   * Get the member schemas in the order they are tried
+   */
+  get members(): M {
+    return this._members;
+  }
+
+  /**
+   * Mark this variable as optional
+   * Keeps the member output types after the call
+   */
+  override optional(): UnionSchema<M, true> {
+    return super.optional() as unknown as UnionSchema<M, true>;
+  }
+
+  /**
+   * Set a default value
+   * Keeps the member output types after the call
+   */
+  override default(value: M[number]["_output"]): UnionSchema<M, false> {
+    return super.default(value) as unknown as UnionSchema<M, false>;
+  }
+
+  override getTypeDescription(): string {
+    return this._members
+      .map((member) => member.getTypeDescription())
+      .join(" | ");
+  }
+
+  protected override getDefaultExample(): string {
+    return this._members[0]?.getExample() ?? "";
+  }
+}
+
+/**
+ * Create a coercer that tries each member's coerce, rules and transforms
+ * Failures from every member are aggregated into a single error
+ */
+function createUnionCoercer<M extends readonly AnySchema[]>(
+  members: M
+): (value: string) => CoercionResult<M[number]["_output"]> {
+  return (value: string) => {
+    const failures: string[] = [];
+
+    for (const member of members) {
+      const def = member._def;
+      const result = def.coerce(value);
+
+      if (!result.success) {
+        failures.push(`${member.getTypeDescription()}: ${result.error}`);
+        continue;
+      }
+
+      const failedRule = def.rules.find((rule) => !rule.validate(result.value));
+      if (failedRule) {
+        failures.push(`${member.getTypeDescription()}: ${failedRule.message}`);
+        continue;
+      }
+
+      let finalValue = result.value;
+      for (const transform of def.transforms ?? []) {
+        finalValue = transform(finalValue);
+      }
+
+      return { success: true, value: finalValue };
+    }
+
+    return {
+      success: false,
+      error: `Value does not match any of: ${failures.join("; ")}`,
+    };
+  };
+}
+
+/**
+ * Create a new union schema
+ * Members are tried in order; the first one that accepts the value wins
+ *
+ * @example
+ * ```typescript
+ * e.union([e.url(), e.path()]) // URL | string
+ * e.union([e.number().port(), e.enum(["auto"] as const)]) // number | "auto"
+ * ```
+ */
+export function union<const M extends readonly AnySchema[]>(
+  members: M
+): UnionSchema<M> {
+  if (members.length === 0) {
+    throw new Error("Union must have at least one member");
+  }
+  return new UnionSchema(members);
+}
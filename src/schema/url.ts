@@ -37,7 +37,8 @@ export class UrlSchema<Optional extends boolean = false> extends BaseSchema<
     const cloned = this.refine(
       (url) => normalizedProtocols.includes(url.protocol),
       `Protocol must be one of: ${protocols.join(", ")}`,
-      "protocols"
+      "protocols",
+      { protocols: normalizedProtocols }
     );
     cloned._allowedProtocols = protocols;
     return cloned;
@@ -68,10 +69,27 @@ export class UrlSchema<Optional extends boolean = false> extends BaseSchema<
     return this.refine(
       (url) => url.hostname === hostname,
       `Host must be "${hostname}"`,
-      "host"
+      "host",
+      { value: hostname }
     );
   }
 
+  /**
+   * Mark this variable as optional
+   * Keeps UrlSchema builder methods available after the call
+   */
+  override optional(): UrlSchema<true> {
+    return super.optional() as unknown as UrlSchema<true>;
+  }
+
+  /**
+   * Set a default value
+   * Keeps UrlSchema builder methods available after the call
+   */
+  override default(value: URL): UrlSchema<false> {
+    return super.default(value) as unknown as UrlSchema<false>;
+  }
+
   override getTypeDescription(): string {
     if (this._allowedProtocols && this._allowedProtocols.length > 0) {
       return `URL (${this._allowedProtocols.join("/")})`;
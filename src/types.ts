@@ -17,13 +17,18 @@ export type SchemaType =
   | "json"
   | "array"
   | "duration"
-  | "path";
+  | "path"
+  | "object"
+  | "union"
+  | "discriminated";
 
 /** Validation rule for schemas */
 export interface ValidationRule<T = unknown> {
   name: string;
   message: string;
   validate: (value: T) => boolean;
+  /** Arguments the rule was built with, for exporters such as toJsonSchema */
+  params?: Record<string, unknown>;
 }
 
 /** Schema metadata for documentation and error messages */
@@ -31,6 +36,16 @@ export interface SchemaMetadata {
   description?: string;
   example?: string;
   isSecret: boolean;
+  /** Deprecation notice reported when the variable is set */
+  deprecated?: string;
+}
+
+/** Condition under which a variable becomes required */
+export interface RequiredCondition {
+  /** Human-readable condition, e.g. `AUTH_MODE is "oauth"` */
+  description: string;
+  /** Check the condition against the raw source */
+  test: (raw: Readonly<Record<string, string | undefined>>) => boolean;
 }
 
 /** Internal schema definition */
@@ -44,6 +59,18 @@ export interface SchemaDefinition<T> {
   enumValues?: readonly string[];
   /** Transform functions applied after validation */
   transforms?: ((value: T) => T)[];
+  /** Nested schemas for object groups */
+  shape?: EnvSchema;
+  /** Variable name prefix for object groups */
+  prefix?: string;
+  /** Allow reading the value from the file named by `${name}_FILE` */
+  fromFile?: boolean;
+  /** Legacy names read when the variable is not set */
+  aliases?: readonly string[];
+  /** Conditions that make the variable required when any holds */
+  requiredWhen?: RequiredCondition[];
+  /** Default values keyed by environment name */
+  environmentDefaults?: Record<string, T>;
 }
 
 // ============================================================
@@ -53,7 +80,7 @@ export interface SchemaDefinition<T> {
 /** Result of coercing a string to a typed value */
 export type CoercionResult<T> =
   | { success: true; value: T }
-  | { success: false; error: string };
+  | { success: false; error: string; suggestion?: string };
 
 /** Boolean string representations */
 export const BOOLEAN_TRUE_VALUES = ["true", "1", "yes", "on"] as const;
@@ -74,7 +101,18 @@ export type ValidationErrorReason =
   | "invalid_value"
   | "parse_error"
   | "unknown"
-  | "cross_field";
+  | "cross_field"
+  | "file_error"
+  | "resolver_error"
+  | "expansion_error"
+  | "weak_secret"
+  | "near_limit"
+  | "deprecated"
+  | "alias_conflict"
+  | "forbidden";
+
+/** Whether a diagnostic fails validation */
+export type ValidationSeverity = "error" | "warning";
 
 /** Individual validation error */
 export interface ValidationError {
@@ -85,6 +123,19 @@ export interface ValidationError {
   received?: string;
   example?: string;
   isSecret: boolean;
+  /** Where the value was defined, when it came from a .env file */
+  location?: DotenvLocation;
+  /**
+   * Likely fix for a typo: the similarly named key that is set instead
+   * of a missing variable, or the closest allowed enum value
+   */
+  suggestion?: string;
+  /** Condition that made a missing variable required */
+  condition?: string;
+  /** Environment profile that was active, if any */
+  profile?: string;
+  /** `"warning"` for diagnostics that do not fail validation (default: error) */
+  severity?: ValidationSeverity;
 }
 
 /** Complete validation result */
@@ -93,6 +144,8 @@ export type ValidationResult<T> =
       success: true;
       data: T;
       errors: [];
+      /** Non-fatal diagnostics such as weak secrets */
+      warnings: ValidationError[];
     }
   | {
       success: false;
@@ -108,7 +161,13 @@ export type ValidationResult<T> =
 export type OnErrorBehavior = "throw" | "exit" | "return";
 
 /** Reporter type */
-export type ReporterType = "pretty" | "json" | "minimal";
+export type ReporterType =
+  | "pretty"
+  | "json"
+  | "minimal"
+  | "github"
+  | "junit"
+  | "sarif";
 
 /** Custom reporter function */
 export type CustomReporter = (errors: ValidationError[]) => string;
@@ -131,6 +190,42 @@ export type CrossFieldValidator = (
   env: Readonly<Record<string, unknown>>
 ) => CrossFieldValidationResult;
 
+/** A secret reference such as `secret://payments/stripe_key` */
+export interface SecretReference {
+  /** Full reference as found in the environment */
+  uri: string;
+  /** URI scheme without "://" (e.g. "secret") */
+  scheme: string;
+  /** Everything after "://" (e.g. "payments/stripe_key") */
+  path: string;
+  /** Variable holding the reference */
+  variable: string;
+}
+
+/** Resolves secret references for one URI scheme */
+export interface SecretResolver {
+  resolve(reference: SecretReference): Promise<string>;
+}
+
+/** Rules applied while an environment profile is active */
+export interface EnvProfile {
+  /**
+   * Other environment names or globs that select this profile.
+   * Environments selected this way also load the profile's .env files
+   */
+  aliases?: string[];
+  /** Variables that must be set */
+  required?: string[];
+  /** Variables that may be left unset */
+  optional?: string[];
+  /** Default values replacing those of the schema, used as-is */
+  defaults?: Record<string, unknown>;
+  /** Variables that must not be set, by their full names */
+  forbidden?: string[];
+  /** Strict mode for this profile, replacing `EnvOptions.strict` */
+  strict?: boolean | "warn";
+}
+
 /** Configuration options for createEnv */
 export interface EnvOptions {
   /** Custom source of environment variables (default: process.env) */
@@ -166,8 +261,17 @@ export interface EnvOptions {
   /** Variables that are optional in development */
   optionalInDevelopment?: string[];
 
-  /** Fail validation when unknown env vars are present */
-  strict?: boolean;
+  /**
+   * Rule sets keyed by environment name or glob (e.g. `"preview-*"`).
+   * The profile matching `environment` is applied; exact names win over globs
+   */
+  profiles?: Record<string, EnvProfile>;
+
+  /**
+   * Fail validation when unknown env vars are present.
+   * `"warn"` reports them as warnings instead
+   */
+  strict?: boolean | "warn";
 
   /** Ignore these vars when strict mode is enabled */
   strictIgnore?: string[];
@@ -175,8 +279,53 @@ export interface EnvOptions {
   /** Validate constraints spanning multiple variables */
   crossValidate?: CrossFieldValidator;
 
-  /** Expand ${VAR} references in dotenv-loaded values */
+  /** Called with the warnings of a successful validation, if any */
+  onWarning?: (warnings: ValidationError[]) => void;
+
+  /** Expand $VAR and ${VAR:-default}-style references in dotenv-loaded values */
   dotenvExpand?: boolean;
+
+  /**
+   * Report malformed .env lines as warnings or errors (default: ignore).
+   * Warnings go to `onWarning` and the result's `warnings`
+   */
+  dotenvDiagnostics?: DotenvDiagnosticsMode;
+
+  /**
+   * Read `X` from the file named by `X_FILE` (Docker/Kubernetes secrets).
+   * `true` uses the `_FILE` suffix; a string sets a custom suffix
+   */
+  fileSuffix?: boolean | string;
+
+  /** Resolvers for secret references keyed by URI scheme (createEnvAsync) */
+  resolvers?: Record<string, SecretResolver>;
+}
+
+/** Options for createEnv with separate server and client variables */
+export interface ClientServerEnvOptions<
+  TServer extends EnvSchema,
+  TClient extends EnvSchema,
+> extends Omit<EnvOptions, "source" | "prefix" | "stripPrefix" | "onError"> {
+  /** Variables only available on the server */
+  server: TServer;
+
+  /** Variables shipped to the browser, each named with `clientPrefix` */
+  client: TClient;
+
+  /** Prefix that marks client variables (e.g., "NEXT_PUBLIC_") */
+  clientPrefix: string;
+
+  /**
+   * Values to validate instead of process.env. List each variable as
+   * `process.env.X` so bundlers that replace those statically still work
+   */
+  runtimeEnv?: Record<string, string | undefined>;
+
+  /** Whether this code runs on the server (default: no global `window`) */
+  isServer?: boolean;
+
+  /** Behavior when validation fails */
+  onError?: "throw" | "exit";
 }
 
 // ============================================================
@@ -196,6 +345,12 @@ export interface AnySchemaDefinition {
   enumValues?: readonly string[];
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   transforms?: ((value: any) => any)[];
+  shape?: EnvSchema;
+  prefix?: string;
+  fromFile?: boolean;
+  aliases?: readonly string[];
+  requiredWhen?: RequiredCondition[];
+  environmentDefaults?: Record<string, unknown>;
 }
 
 /** Base interface that all schemas implement */
@@ -220,6 +375,49 @@ export type InferEnv<T extends EnvSchema> = {
   readonly [K in keyof T]: InferSchemaOutput<T[K]>;
 };
 
+// ============================================================
+// Dotenv Types
+// ============================================================
+
+/** Problem found while parsing a .env file */
+export interface DotenvDiagnostic {
+  /** 1-based line number where the problem starts */
+  line: number;
+  message: string;
+  /** Variable name, when the line got far enough to have one */
+  key?: string;
+  /** File the content was loaded from, when known */
+  file?: string;
+}
+
+/** Where a variable was defined in a .env file */
+export interface DotenvLocation {
+  /** 1-based line number of the assignment */
+  line: number;
+  /** File the variable was loaded from, when known */
+  file?: string;
+}
+
+/** Result of parsing .env content with diagnostics */
+export interface DotenvParseResult {
+  values: Record<string, string>;
+  diagnostics: DotenvDiagnostic[];
+  /** Location of the assignment that set each value */
+  locations: Record<string, DotenvLocation>;
+  /** Keys whose values were single-quoted, which are never expanded */
+  literalKeys: string[];
+}
+
+/** Result of expanding variable references in dotenv values */
+export interface DotenvExpansionResult {
+  values: Record<string, string>;
+  /** Failed `${VAR:?message}` checks and circular references */
+  errors: ValidationError[];
+}
+
+/** How createEnv handles .env parse diagnostics */
+export type DotenvDiagnosticsMode = "ignore" | "warn" | "error";
+
 // ============================================================
 // Generator Types
 // ============================================================
@@ -239,12 +437,149 @@ export interface GenerateOptions {
   headerText?: string;
 }
 
+/** A JSON Schema (draft 2020-12) document or subschema */
+export interface JsonSchemaDocument {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, JsonSchemaDocument>;
+  required?: string[];
+  items?: JsonSchemaDocument;
+  enum?: unknown[];
+  default?: unknown;
+  writeOnly?: boolean;
+  anyOf?: JsonSchemaDocument[];
+  allOf?: JsonSchemaDocument[];
+  [keyword: string]: unknown;
+}
+
+/** Keyword that could not be converted by fromJsonSchema */
+export interface JsonSchemaImportWarning {
+  /** JSON Pointer to the keyword in the source document */
+  path: string;
+  /** Variable the keyword belongs to, when inside a property */
+  variable?: string;
+  message: string;
+}
+
+/** Result of importing a JSON Schema document */
+export interface JsonSchemaImportResult {
+  schema: EnvSchema;
+  warnings: JsonSchemaImportWarning[];
+}
+
+/** Result of generating `env.config.ts` source from a JSON Schema */
+export interface JsonSchemaCodeResult {
+  code: string;
+  warnings: JsonSchemaImportWarning[];
+}
+
+/** Options for schema inference from .env values */
+export interface InferSchemaOptions {
+  /**
+   * Keep non-secret values as `.example()` (default: false).
+   * Examples end up in env.config.ts and .env.example, which are committed
+   */
+  examples?: boolean;
+}
+
+/** Options for JSON Schema export */
+export interface JsonSchemaOptions {
+  /** Document title */
+  title?: string;
+}
+
+/** Options for Markdown docs generation */
+export interface MarkdownDocsOptions {
+  /** Output file path (default: README.md) */
+  output?: string;
+
+  /** Append the docs to an existing file that has no markers */
+  force?: boolean;
+
+  /** Document heading (default: Environment Variables) */
+  title?: string;
+
+  /** Heading level of the title; sections go one level deeper (default: 2) */
+  headingLevel?: number;
+
+  /**
+   * Split top-level variables into tables by name prefix.
+   * `true` groups by the first `_`-separated segment; an array lists prefixes
+   */
+  groupByPrefix?: boolean | string[];
+
+  /** Marker comment name, `<!-- marker:start -->` (default: envproof) */
+  marker?: string;
+}
+
+/** Options for Kubernetes manifest generation */
+export interface KubernetesOptions {
+  /** ConfigMap name (default: app-env) */
+  name?: string;
+
+  /** Secret name (default: `<name>-secret`) */
+  secretName?: string;
+
+  /** Namespace for both manifests (default: none) */
+  namespace?: string;
+}
+
+/** Generated Kubernetes manifests */
+export interface KubernetesManifests {
+  /** ConfigMap and, when the schema has secrets, Secret YAML documents */
+  manifests: string;
+
+  /** Container `envFrom` YAML referencing the manifests */
+  envFrom: string;
+}
+
+/** Options for Docker Compose generation */
+export interface ComposeOptions {
+  /** Service name (default: app) */
+  service?: string;
+
+  /** Directory holding secret files (default: ./secrets) */
+  secretsDir?: string;
+}
+
+/** Options for type declaration generation */
+export interface TypeDeclarationsOptions {
+  /** Output file path (default: env.d.ts) */
+  output?: string;
+
+  /** Overwrite a file that was not generated by envproof */
+  force?: boolean;
+}
+
+/** Options for writing Vite `import.meta.env` declarations */
+export interface ViteEnvDeclarationsOptions {
+  /** Output file path (default: vite-env.d.ts) */
+  output?: string;
+
+  /** Prefixes of the variables Vite exposes (default: "VITE_") */
+  envPrefix?: string | readonly string[];
+
+  /** Overwrite a file that was not generated by envproof */
+  force?: boolean;
+}
+
 // ============================================================
 // CLI Types
 // ============================================================
 
 /** CLI command names */
-export type CliCommand = "check" | "generate" | "init" | "help" | "version";
+export type CliCommand =
+  | "check"
+  | "generate"
+  | "init"
+  | "run"
+  | "docs"
+  | "types"
+  | "help"
+  | "version";
 
 /** CLI options */
 export interface CliOptions {
@@ -10,44 +10,75 @@ import type {
   ValidationResult,
   EnvOptions,
   AnySchema,
+  CoercionResult,
 } from "../types.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
 import {
   createMissingError,
   createEmptyError,
   createTypeError,
   createValueError,
   createUnknownError,
+  addMissingSuggestion,
+  createFileError,
+  createDeprecatedWarning,
+  createAliasConflictError,
+  createWeakSecretWarning,
+  createNearLimitWarning,
+  asWarning,
   EnvValidationError,
 } from "./errors.js";
+import type { ObjectSchema } from "../schema/object.js";
+import type { DiscriminatedSchema } from "../schema/discriminate.js";
+import { isObjectSchema, flattenSchema } from "../schema/object.js";
+import { isDiscriminatedSchema } from "../schema/discriminate.js";
 import { formatPretty } from "../reporters/pretty.js";
 import { formatJson } from "../reporters/json.js";
 import { formatMinimal } from "../reporters/minimal.js";
+import { formatGithub } from "../reporters/github.js";
+import { formatJunit } from "../reporters/junit.js";
+import { formatSarif } from "../reporters/sarif.js";
+import { pairNearMisses } from "./suggest.js";
+import { getSecretWeakness, findLimitRule } from "./warnings.js";
+
+/**
+ * Outcome of validating one variable
+ */
+interface VariableResult {
+  value?: unknown;
+  error?: ValidationError;
+  warnings?: ValidationError[];
+}
 
 /**
  * Validate a single environment variable against its schema
+ *
+ * @param condition - Condition currently making the variable required
+ * @param environment - Current environment, for `.defaultFor()` defaults
  */
 function validateVariable(
   name: string,
   value: string | undefined,
-  schema: AnySchema
-): { value?: unknown; error?: ValidationError } {
+  schema: AnySchema,
+  condition?: string,
+  environment?: string
+): VariableResult {
   const def = schema._def;
 
   // Check if value is missing or empty
   if (value === undefined || value === "") {
-    // If optional, return undefined
-    if (def.isOptional) {
-      return { value: undefined };
-    }
-
-    // If has default, use it
-    if (def.defaultValue !== undefined) {
-      return { value: def.defaultValue };
+    // Defaults and optionality do not apply while a condition holds
+    if (condition === undefined) {
+      const defaultValue = getDefaultValue(schema, environment);
+      if (defaultValue !== undefined || def.isOptional) {
+        return { value: defaultValue };
+      }
     }
 
     // Otherwise, error
     if (value === undefined) {
-      return { error: createMissingError(name, schema) };
+      return { error: createMissingError(name, schema, condition) };
     } else {
       return { error: createEmptyError(name, schema) };
     }
@@ -58,7 +89,13 @@ function validateVariable(
 
   if (!coercionResult.success) {
     return {
-      error: createTypeError(name, schema, value, coercionResult.error),
+      error: createTypeError(
+        name,
+        schema,
+        value,
+        coercionResult.error,
+        coercionResult.suggestion
+      ),
     };
   }
 
@@ -69,6 +106,8 @@ function validateVariable(
     }
   }
 
+  const warnings = checkWarnings(name, value, coercionResult.value, schema);
+
   // Apply transforms
   let finalValue = coercionResult.value;
   if (def.transforms && def.transforms.length > 0) {
@@ -77,65 +116,493 @@ function validateVariable(
     }
   }
 
-  return { value: finalValue };
+  return warnings.length > 0
+    ? { value: finalValue, warnings }
+    : { value: finalValue };
+}
+
+/**
+ * Get the value an unset variable takes in an environment
+ * A `.defaultFor()` default wins; otherwise optional variables stay
+ * undefined and the rest use their `.default()`
+ */
+export function getDefaultValue(
+  schema: AnySchema,
+  environment: string | undefined
+): unknown {
+  const environmentDefault = getEnvironmentDefault(schema, environment);
+  if (environmentDefault !== undefined) {
+    return environmentDefault;
+  }
+  return schema._def.isOptional ? undefined : schema._def.defaultValue;
+}
+
+/**
+ * Get the `.defaultFor()` default of a schema for an environment
+ */
+function getEnvironmentDefault(
+  schema: AnySchema,
+  environment: string | undefined
+): unknown {
+  const defaults = schema._def.environmentDefaults;
+  return defaults &&
+    environment !== undefined &&
+    Object.hasOwn(defaults, environment)
+    ? defaults[environment]
+    : undefined;
+}
+
+/**
+ * Check a valid value for weak secrets and values on a rule's limit
+ */
+function checkWarnings(
+  name: string,
+  raw: string,
+  value: unknown,
+  schema: AnySchema
+): ValidationError[] {
+  const def = schema._def;
+  const warnings: ValidationError[] = [];
+
+  if (def.metadata.isSecret && typeof value === "string") {
+    const weakness = getSecretWeakness(value);
+    if (weakness !== undefined) {
+      warnings.push(createWeakSecretWarning(name, schema, weakness));
+    }
+  }
+
+  const limitRule = findLimitRule(value, def.rules);
+  if (limitRule) {
+    warnings.push(
+      createNearLimitWarning(
+        name,
+        schema,
+        raw,
+        `Only just passes: ${limitRule.message}`
+      )
+    );
+  }
+
+  return warnings;
+}
+
+/**
+ * Shared state for a single validation pass
+ */
+interface ValidationContext {
+  source: Record<string, string | undefined>;
+  errors: ValidationError[];
+  warnings: ValidationError[];
+  expectedEnvKeys: Set<string>;
+  /** Number of leading characters stripped from reported variable names */
+  stripLength: number;
+  /** Suffix naming the file that holds a variable's value */
+  fileSuffix: string;
+  /** Whether file indirection applies to every variable */
+  readAllFromFiles: boolean;
+  /** Current environment, for `.defaultFor()` defaults */
+  environment?: string;
+  /** Variables whose values are secret whatever their schema says */
+  secretKeys: ReadonlySet<string>;
+}
+
+/**
+ * Validate a group of schemas whose variables share a name prefix
+ * Object groups are validated recursively into nested objects
+ */
+function validateShape(
+  shape: EnvSchema,
+  envPrefix: string,
+  context: ValidationContext,
+  topLevel: boolean
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  for (const [key, fieldSchema] of Object.entries(shape)) {
+    // Determine the actual env var name
+    const envKey = `${envPrefix}${key}`;
+    const outputKey = topLevel && context.stripLength === 0 ? envKey : key;
+
+    if (isObjectSchema(fieldSchema)) {
+      data[key] = validateGroup(
+        fieldSchema,
+        `${envPrefix}${fieldSchema.prefix}`,
+        context
+      );
+      continue;
+    }
+
+    if (isDiscriminatedSchema(fieldSchema)) {
+      data[key] = validateDiscriminated(fieldSchema, envPrefix, context);
+      continue;
+    }
+
+    context.expectedEnvKeys.add(envKey);
+
+    const result = validateLeaf(
+      envKey,
+      fieldSchema as AnySchema,
+      context,
+      envPrefix
+    );
+    if (!result.error) {
+      data[outputKey] = result.value;
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Validate a single variable, recording any error in the context
+ *
+ * @param envPrefix - Prefix of the variable's group, for legacy names
+ */
+function validateLeaf(
+  envKey: string,
+  schema: AnySchema,
+  context: ValidationContext,
+  envPrefix: string
+): VariableResult {
+  const readsFromFile = context.readAllFromFiles || schema._def.fromFile;
+  const fileKey = `${envKey}${context.fileSuffix}`;
+  const filePath = readsFromFile ? context.source[fileKey] : undefined;
+
+  // First condition that makes the variable required, if any
+  const condition = schema._def.requiredWhen?.find(({ test }) =>
+    test(context.source)
+  )?.description;
+
+  let result: VariableResult;
+  let isSet = Boolean(filePath);
+  if (readsFromFile) {
+    context.expectedEnvKeys.add(fileKey);
+  }
+
+  if (filePath) {
+    const file = readSecretFile(filePath);
+    // Values read from files are always treated as secrets
+    result = file.success
+      ? validateVariable(
+          envKey,
+          file.value,
+          asSecretSchema(schema),
+          condition,
+          context.environment
+        )
+      : { error: createFileError(envKey, schema, filePath, file.error) };
+  } else {
+    const aliased = readAliasedValue(envKey, envPrefix, schema, context);
+    isSet = aliased.value !== undefined;
+    result = aliased.error
+      ? { error: aliased.error }
+      : validateVariable(
+          envKey,
+          aliased.value,
+          context.secretKeys.has(envKey) ? asSecretSchema(schema) : schema,
+          condition,
+          context.environment
+        );
+  }
+
+  // Report the full variable name, minus any stripped prefix
+  const variable = envKey.slice(context.stripLength);
+  const deprecation = schema._def.metadata.deprecated;
+  if (deprecation !== undefined && isSet) {
+    context.warnings.push(
+      createDeprecatedWarning(variable, schema, deprecation)
+    );
+  }
+  if (result.error) {
+    result.error.variable = variable;
+    context.errors.push(result.error);
+  }
+  for (const warning of result.warnings ?? []) {
+    context.warnings.push({ ...warning, variable });
+  }
+
+  return result;
+}
+
+/**
+ * Copy a schema with its secret flag set, so errors and warnings for its
+ * value are masked and weak values are reported
+ */
+function asSecretSchema(schema: AnySchema): AnySchema {
+  if (schema._def.metadata.isSecret) {
+    return schema;
+  }
+  const cloned = Object.create(Object.getPrototypeOf(schema));
+  Object.assign(cloned, schema);
+  cloned._def = {
+    ...schema._def,
+    metadata: { ...schema._def.metadata, isSecret: true },
+  };
+  return cloned;
+}
+
+/**
+ * Read a variable, falling back to its legacy names when it is not set
+ * Every legacy name that is set gets a deprecation warning
+ */
+function readAliasedValue(
+  envKey: string,
+  envPrefix: string,
+  schema: AnySchema,
+  context: ValidationContext
+): { value: string | undefined; error?: ValidationError } {
+  const variable = envKey.slice(context.stripLength);
+  let value = context.source[envKey];
+  let valueName = variable;
+
+  for (const alias of schema._def.aliases ?? []) {
+    const aliasKey = `${envPrefix}${alias}`;
+    context.expectedEnvKeys.add(aliasKey);
+
+    const aliasValue = context.source[aliasKey];
+    if (aliasValue === undefined) {
+      continue;
+    }
+
+    const legacyName = aliasKey.slice(context.stripLength);
+    context.warnings.push(
+      createDeprecatedWarning(
+        legacyName,
+        schema,
+        `${legacyName} is deprecated; rename it to ${variable}`
+      )
+    );
+
+    if (value === undefined) {
+      value = aliasValue;
+      valueName = legacyName;
+    } else if (aliasValue !== value) {
+      return {
+        value,
+        error: createAliasConflictError(
+          variable,
+          valueName,
+          legacyName,
+          schema
+        ),
+      };
+    }
+  }
+
+  return { value };
+}
+
+/**
+ * Read a `*_FILE` secret, trimming the trailing newline
+ */
+function readSecretFile(filePath: string): CoercionResult<string> {
+  try {
+    const content = fs.readFileSync(
+      path.resolve(process.cwd(), filePath),
+      "utf-8"
+    );
+    return { success: true, value: content.replace(/\r?\n$/, "") };
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { success: false, error: message };
+  }
+}
+
+/**
+ * Validate a discriminated set, checking only the selected branch
+ * Under strict mode variables of the other branches are unknown
+ */
+function validateDiscriminated(
+  schema: DiscriminatedSchema<string, Record<string, EnvSchema>, boolean>,
+  envPrefix: string,
+  context: ValidationContext
+): Record<string, unknown> | undefined {
+  const discriminatorKey = `${envPrefix}${schema.discriminator}`;
+  context.expectedEnvKeys.add(discriminatorKey);
+
+  const result = validateLeaf(
+    discriminatorKey,
+    schema.discriminatorSchema,
+    context,
+    envPrefix
+  );
+  if (result.error || result.value === undefined) {
+    // Without a selected branch no branch's variables count as unknown
+    for (const [name] of flattenSchema({ _: schema }, envPrefix)) {
+      context.expectedEnvKeys.add(name);
+    }
+    return undefined;
+  }
+
+  const branchName = result.value as string;
+  const branch = schema.branches[branchName] ?? {};
+  return {
+    [schema.discriminator]: branchName,
+    ...validateShape(branch, envPrefix, context, false),
+  };
+}
+
+/**
+ * Validate an object group, honouring its optional flag
+ */
+function validateGroup(
+  schema: ObjectSchema<EnvSchema, boolean>,
+  envPrefix: string,
+  context: ValidationContext
+): Record<string, unknown> | undefined {
+  if (schema._def.isOptional && !isShapeSet(schema.shape, envPrefix, context)) {
+    for (const [name] of flattenSchema(schema.shape, envPrefix)) {
+      context.expectedEnvKeys.add(name);
+    }
+    return undefined;
+  }
+
+  return validateShape(schema.shape, envPrefix, context, false);
+}
+
+/**
+ * Check whether any variable of a shape is set, looking it up like
+ * validateLeaf does: by name, by `*_FILE` name and by legacy names
+ */
+function isShapeSet(
+  shape: EnvSchema,
+  envPrefix: string,
+  context: ValidationContext
+): boolean {
+  return Object.entries(shape).some(([key, fieldSchema]) => {
+    if (isObjectSchema(fieldSchema)) {
+      return isShapeSet(
+        fieldSchema.shape,
+        `${envPrefix}${fieldSchema.prefix}`,
+        context
+      );
+    }
+    if (isDiscriminatedSchema(fieldSchema)) {
+      return (
+        isLeafSet(
+          `${envPrefix}${fieldSchema.discriminator}`,
+          fieldSchema.discriminatorSchema,
+          envPrefix,
+          context
+        ) ||
+        Object.values(fieldSchema.branches).some((branch) =>
+          isShapeSet(branch, envPrefix, context)
+        )
+      );
+    }
+    return isLeafSet(
+      `${envPrefix}${key}`,
+      fieldSchema as AnySchema,
+      envPrefix,
+      context
+    );
+  });
+}
+
+/**
+ * Check whether a variable is set under any name validateLeaf reads
+ */
+function isLeafSet(
+  envKey: string,
+  schema: AnySchema,
+  envPrefix: string,
+  context: ValidationContext
+): boolean {
+  const names = [
+    envKey,
+    ...(schema._def.aliases ?? []).map((alias) => `${envPrefix}${alias}`),
+  ];
+  if (context.readAllFromFiles || schema._def.fromFile) {
+    names.push(`${envKey}${context.fileSuffix}`);
+  }
+  return names.some((name) => context.source[name] !== undefined);
 }
 
 /**
  * Validate all environment variables against the schema
  * Returns a typed result with data or errors
+ *
+ * @param secretKeys - Variables to treat as secrets, such as resolved ones
  */
 export function validate<T extends EnvSchema>(
   schema: T,
   source: Record<string, string | undefined> = process.env,
-  options: EnvOptions = {}
+  options: EnvOptions = {},
+  secretKeys: ReadonlySet<string> = new Set()
 ): ValidationResult<InferEnv<T>> {
-  const errors: ValidationError[] = [];
-  const data: Record<string, unknown> = {};
-  const expectedEnvKeys = new Set<string>();
-
   const { prefix, stripPrefix, strict } = options;
 
-  for (const [key, fieldSchema] of Object.entries(schema)) {
-    // Determine the actual env var name
-    const envKey = prefix ? `${prefix}${key}` : key;
-    expectedEnvKeys.add(envKey);
-    const value = source[envKey];
+  const context: ValidationContext = {
+    source,
+    errors: [],
+    warnings: [],
+    expectedEnvKeys: new Set<string>(),
+    stripLength: stripPrefix && prefix ? prefix.length : 0,
+    fileSuffix:
+      typeof options.fileSuffix === "string" ? options.fileSuffix : "_FILE",
+    readAllFromFiles: Boolean(options.fileSuffix),
+    ...(options.environment !== undefined && {
+      environment: options.environment,
+    }),
+    secretKeys,
+  };
+  const { errors, warnings, expectedEnvKeys } = context;
 
-    // Validate the variable
-    const result = validateVariable(envKey, value, fieldSchema as AnySchema);
+  const data = validateShape(schema, prefix ?? "", context, true);
 
-    if (result.error) {
-      // Store with original key name for error reporting
-      result.error.variable = stripPrefix && prefix ? key : envKey;
-      errors.push(result.error);
-    } else {
-      // Store with potentially stripped key
-      const outputKey = stripPrefix && prefix ? key : envKey;
-      data[outputKey] = result.value;
+  // Keys set in the source that the schema does not define
+  const strictIgnore = new Set(options.strictIgnore ?? []);
+  const unknownKeys = Object.keys(source).filter(
+    (sourceKey) =>
+      source[sourceKey] !== undefined &&
+      !strictIgnore.has(sourceKey) &&
+      (!prefix || sourceKey.startsWith(prefix)) &&
+      !expectedEnvKeys.has(sourceKey)
+  );
+
+  // A missing variable with a similarly named key set is most likely a
+  // typo; report the pair as one missing error suggesting the key. Without
+  // strict mode or a prefix the unknown keys are all of process.env, where
+  // near misses are mostly unrelated variables
+  const missingKeys = errors
+    .filter((error) => error.reason === "missing")
+    .map((error) => toEnvKey(error.variable, prefix, context.stripLength));
+  const nearMisses = pairNearMisses(
+    missingKeys,
+    strict || prefix ? unknownKeys : []
+  );
+  const pairedKeys = new Set(nearMisses.values());
+
+  for (const [index, error] of errors.entries()) {
+    if (error.reason !== "missing") {
+      continue;
+    }
+    const setKey = nearMisses.get(
+      toEnvKey(error.variable, prefix, context.stripLength)
+    );
+    if (setKey !== undefined) {
+      errors[index] = addMissingSuggestion(
+        error,
+        setKey.slice(context.stripLength)
+      );
     }
   }
 
   if (strict) {
-    const strictIgnore = new Set(options.strictIgnore ?? []);
-    for (const [sourceKey, sourceValue] of Object.entries(source)) {
-      if (sourceValue === undefined) {
-        continue;
-      }
-
-      if (strictIgnore.has(sourceKey)) {
+    for (const sourceKey of unknownKeys) {
+      if (pairedKeys.has(sourceKey)) {
         continue;
       }
 
-      if (prefix && !sourceKey.startsWith(prefix)) {
-        continue;
-      }
-
-      if (!expectedEnvKeys.has(sourceKey)) {
-        const outputKey =
-          stripPrefix && prefix && sourceKey.startsWith(prefix)
-            ? sourceKey.slice(prefix.length)
-            : sourceKey;
-        errors.push(createUnknownError(outputKey, sourceValue));
+      const outputKey =
+        stripPrefix && prefix && sourceKey.startsWith(prefix)
+          ? sourceKey.slice(prefix.length)
+          : sourceKey;
+      const error = createUnknownError(outputKey, source[sourceKey] ?? "");
+      if (strict === "warn") {
+        warnings.push(asWarning(error));
+      } else {
+        errors.push(error);
       }
     }
   }
@@ -144,15 +611,29 @@ export function validate<T extends EnvSchema>(
     return { success: false, errors };
   }
 
-  return { success: true, data: data as InferEnv<T>, errors: [] };
+  return { success: true, data: data as InferEnv<T>, errors: [], warnings };
+}
+
+/**
+ * Get the source key of a reported variable name
+ */
+function toEnvKey(
+  variable: string,
+  prefix: string | undefined,
+  stripLength: number
+): string {
+  return stripLength > 0 ? `${prefix ?? ""}${variable}` : variable;
 }
 
 /**
  * Format validation errors using the specified reporter
+ *
+ * @param schema - Lets the junit reporter list passing variables too
  */
 export function formatErrors(
   errors: ValidationError[],
-  reporter: EnvOptions["reporter"] = "pretty"
+  reporter: EnvOptions["reporter"] = "pretty",
+  schema?: EnvSchema
 ): string {
   if (typeof reporter === "function") {
     return reporter(errors);
@@ -163,6 +644,12 @@ export function formatErrors(
       return formatJson(errors);
     case "minimal":
       return formatMinimal(errors);
+    case "github":
+      return formatGithub(errors);
+    case "junit":
+      return formatJunit(errors, schema);
+    case "sarif":
+      return formatSarif(errors);
     case "pretty":
     default:
       return formatPretty(errors);
@@ -174,9 +661,10 @@ export function formatErrors(
  */
 export function handleValidationFailure(
   errors: ValidationError[],
-  options: EnvOptions
+  options: EnvOptions,
+  schema?: EnvSchema
 ): never {
-  const formattedMessage = formatErrors(errors, options.reporter);
+  const formattedMessage = formatErrors(errors, options.reporter, schema);
 
   switch (options.onError) {
     case "exit":
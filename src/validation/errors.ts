@@ -7,24 +7,33 @@ import type {
   ValidationError,
   ValidationErrorReason,
   AnySchema,
+  DotenvDiagnostic,
+  DotenvLocation,
 } from "../types.js";
 
 /**
  * Create a validation error for a missing variable
+ *
+ * @param condition - Condition that made an optional variable required
  */
 export function createMissingError(
   variable: string,
-  schema: AnySchema
+  schema: AnySchema,
+  condition?: string
 ): ValidationError {
   const def = schema._def;
 
   return {
     variable,
     reason: "missing",
-    message: "Required variable is not set",
+    message:
+      condition !== undefined
+        ? `Required when ${condition}`
+        : "Required variable is not set",
     expected: schema.getTypeDescription(),
     example: schema.getExample(),
     isSecret: def.metadata.isSecret,
+    ...(condition !== undefined && { condition }),
   };
 }
 
@@ -54,7 +63,8 @@ export function createTypeError(
   variable: string,
   schema: AnySchema,
   received: string,
-  coercionError: string
+  coercionError: string,
+  suggestion?: string
 ): ValidationError {
   const def = schema._def;
 
@@ -66,6 +76,7 @@ export function createTypeError(
     received: def.metadata.isSecret ? "[REDACTED]" : received,
     example: schema.getExample(),
     isSecret: def.metadata.isSecret,
+    ...(suggestion !== undefined && { suggestion }),
   };
 }
 
@@ -130,6 +141,141 @@ export function createUnknownError(
   };
 }
 
+/**
+ * Merge a missing variable with the similarly named key set in its place
+ * The key is appended to the message, keeping any `.requiredWhen()` reason
+ */
+export function addMissingSuggestion(
+  error: ValidationError,
+  setKey: string
+): ValidationError {
+  return {
+    ...error,
+    message: `${error.message}, but ${setKey} is`,
+    suggestion: setKey,
+  };
+}
+
+/**
+ * Describe the suggestion of an error as a "did you mean" hint
+ */
+export function describeSuggestion(error: ValidationError): string | undefined {
+  if (error.suggestion === undefined) {
+    return undefined;
+  }
+  return error.reason === "missing"
+    ? `Found ${error.suggestion}; did you mean ${error.variable}?`
+    : `Did you mean "${error.suggestion}"?`;
+}
+
+/**
+ * Create a warning for a secret that is set but easy to guess
+ */
+export function createWeakSecretWarning(
+  variable: string,
+  schema: AnySchema,
+  weakness: string
+): ValidationError {
+  return {
+    variable,
+    reason: "weak_secret",
+    message: weakness,
+    expected: schema.getTypeDescription(),
+    received: "[REDACTED]",
+    isSecret: true,
+    severity: "warning",
+  };
+}
+
+/**
+ * Create a warning for a value that sits exactly on a rule's limit
+ */
+export function createNearLimitWarning(
+  variable: string,
+  schema: AnySchema,
+  received: string,
+  message: string
+): ValidationError {
+  const def = schema._def;
+
+  return {
+    variable,
+    reason: "near_limit",
+    message,
+    expected: schema.getTypeDescription(),
+    received: def.metadata.isSecret ? "[REDACTED]" : truncateValue(received),
+    isSecret: def.metadata.isSecret,
+    severity: "warning",
+  };
+}
+
+/**
+ * Create a warning for a deprecated variable that is set
+ */
+export function createDeprecatedWarning(
+  variable: string,
+  schema: AnySchema,
+  message: string
+): ValidationError {
+  return {
+    variable,
+    reason: "deprecated",
+    message,
+    expected: schema.getTypeDescription(),
+    isSecret: schema._def.metadata.isSecret,
+    severity: "warning",
+  };
+}
+
+/**
+ * Create a validation error for a variable whose legacy name is set to a
+ * different value
+ */
+export function createAliasConflictError(
+  variable: string,
+  setName: string,
+  legacyName: string,
+  schema: AnySchema
+): ValidationError {
+  return {
+    variable,
+    reason: "alias_conflict",
+    message: `${setName} and ${legacyName} are set to different values`,
+    expected: `${variable} only, or the same value under every name`,
+    isSecret: schema._def.metadata.isSecret,
+  };
+}
+
+/**
+ * Create a validation error for a variable the active profile forbids
+ */
+export function createForbiddenError(
+  variable: string,
+  profile: string
+): ValidationError {
+  return {
+    variable,
+    reason: "forbidden",
+    message: `Must not be set in profile "${profile}"`,
+    expected: "variable to be unset",
+    isSecret: false,
+  };
+}
+
+/**
+ * Downgrade an error to a warning
+ */
+export function asWarning(error: ValidationError): ValidationError {
+  return { ...error, severity: "warning" };
+}
+
+/**
+ * Check whether a diagnostic is a warning rather than an error
+ */
+export function isWarning(error: ValidationError): boolean {
+  return error.severity === "warning";
+}
+
 /**
  * Create a validation error for cross-field validation failures
  */
@@ -146,6 +292,119 @@ export function createCrossFieldError(
   };
 }
 
+/**
+ * Create a validation error for a malformed .env line
+ */
+export function createDotenvError(
+  diagnostic: DotenvDiagnostic
+): ValidationError {
+  const location = `${diagnostic.file ?? ".env"}:${diagnostic.line}`;
+
+  return {
+    variable: diagnostic.key ?? location,
+    reason: "parse_error",
+    message: `${location}: ${diagnostic.message}`,
+    expected: "valid dotenv syntax",
+    isSecret: false,
+    location: {
+      line: diagnostic.line,
+      ...(diagnostic.file !== undefined && { file: diagnostic.file }),
+    },
+  };
+}
+
+/**
+ * Create a validation error for a dotenv value that failed to expand
+ * The message names the file and line of the assignment when known
+ */
+export function createExpansionError(
+  variable: string,
+  message: string,
+  expected: string,
+  location?: DotenvLocation
+): ValidationError {
+  const prefix = location
+    ? `${location.file ?? ".env"}:${location.line}: `
+    : "";
+
+  return {
+    variable,
+    reason: "expansion_error",
+    message: `${prefix}${message}`,
+    expected,
+    isSecret: false,
+    ...(location !== undefined && { location }),
+  };
+}
+
+/**
+ * Create a validation error for an unreadable `*_FILE` secret
+ */
+export function createFileError(
+  variable: string,
+  schema: AnySchema,
+  filePath: string,
+  readError: string
+): ValidationError {
+  return {
+    variable,
+    reason: "file_error",
+    message: `Cannot read file "${filePath}": ${readError}`,
+    expected: `readable file containing ${schema.getTypeDescription()}`,
+    received: filePath,
+    isSecret: true,
+  };
+}
+
+/**
+ * Create a validation error for a secret reference that failed to resolve
+ */
+export function createResolverError(
+  variable: string,
+  uri: string,
+  resolveError: string
+): ValidationError {
+  return {
+    variable,
+    reason: "resolver_error",
+    message: `Cannot resolve "${uri}": ${resolveError}`,
+    expected: "resolvable secret reference",
+    received: uri,
+    isSecret: true,
+  };
+}
+
+/**
+ * Mark an error as belonging to a secret and redact its received value
+ */
+export function markSecret(error: ValidationError): ValidationError {
+  return {
+    ...error,
+    isSecret: true,
+    ...(error.received !== undefined && { received: "[REDACTED]" }),
+  };
+}
+
+/**
+ * Attach the .env location of each variable to its errors
+ * Errors that already carry a location keep it
+ *
+ * @param prefix - Prefix stripped from reported names, if any
+ */
+export function addErrorLocations(
+  errors: ValidationError[],
+  locations: Record<string, DotenvLocation>,
+  prefix = ""
+): ValidationError[] {
+  return errors.map((error) => {
+    const location =
+      locations[error.variable] ?? locations[`${prefix}${error.variable}`];
+    return error.location === undefined && location !== undefined
+      ? { ...error, location }
+      : error;
+  });
+}
+
 /**
  * Truncate long values for display
  */
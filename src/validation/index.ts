@@ -2,7 +2,12 @@
  * EnvProof - Validation Exports
  */
 
-export { validate, formatErrors, handleValidationFailure } from "./engine.js";
+export {
+  validate,
+  formatErrors,
+  handleValidationFailure,
+  getDefaultValue,
+} from "./engine.js";
 export {
   createMissingError,
   createEmptyError,
@@ -10,7 +15,26 @@ export {
   createValueError,
   createParseError,
   createUnknownError,
+  addMissingSuggestion,
+  createWeakSecretWarning,
+  createNearLimitWarning,
+  createDeprecatedWarning,
+  createAliasConflictError,
+  asWarning,
+  isWarning,
+  describeSuggestion,
   createCrossFieldError,
+  createDotenvError,
+  createExpansionError,
+  createFileError,
+  createResolverError,
+  markSecret,
+  addErrorLocations,
   EnvValidationError,
   groupErrorsByReason,
 } from "./errors.js";
+export {
+  getEditDistance,
+  findClosestMatch,
+  pairNearMisses,
+} from "./suggest.js";
@@ -0,0 +1,112 @@
+/**
+ * EnvProof - Suggestions
+ * Near-miss matching for misspelled variable names and enum values
+ */
+
+/**
+ * Count the edits (insertions, deletions, substitutions and swaps of
+ * adjacent characters) needed to turn one string into another
+ */
+export function getEditDistance(a: string, b: string): number {
+  // rows[i][j] is the distance between the first i chars of a and j of b
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : i))
+  );
+  const at = (i: number, j: number): number => rows[i]?.[j] ?? Infinity;
+
+  for (let i = 1; i <= a.length; i++) {
+    const row = rows[i] ?? [];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(
+        at(i - 1, j) + 1,
+        at(i, j - 1) + 1,
+        at(i - 1, j - 1) + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(at(i, j), at(i - 2, j - 2) + 1);
+      }
+    }
+  }
+
+  return at(a.length, b.length);
+}
+
+/**
+ * Get how far apart two strings are, ignoring case
+ * Returns undefined when they are too far apart to be a likely typo:
+ * one edit for short strings, up to three for long ones
+ */
+function getNearMissDistance(
+  input: string,
+  candidate: string
+): number | undefined {
+  const a = input.toLowerCase();
+  const b = candidate.toLowerCase();
+  const maxDistance = Math.min(
+    3,
+    Math.max(1, Math.floor(Math.min(a.length, b.length) / 4))
+  );
+  const distance = getEditDistance(a, b);
+  return distance <= maxDistance ? distance : undefined;
+}
+
+/**
+ * Find the candidate closest to a misspelled input
+ *
+ * @example
+ * ```typescript
+ * findClosestMatch("prodution", ["development", "production"]); // "production"
+ * ```
+ */
+export function findClosestMatch(
+  input: string,
+  candidates: readonly string[]
+): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = getNearMissDistance(input, candidate);
+    if (distance !== undefined && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Pair each name with at most one near-miss candidate, closest pairs first
+ *
+ * @returns Map from name to its paired candidate
+ */
+export function pairNearMisses(
+  names: readonly string[],
+  candidates: readonly string[]
+): Map<string, string> {
+  const pairs: { name: string; candidate: string; distance: number }[] = [];
+
+  for (const name of names) {
+    for (const candidate of candidates) {
+      const distance = getNearMissDistance(name, candidate);
+      if (distance !== undefined) {
+        pairs.push({ name, candidate, distance });
+      }
+    }
+  }
+
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const matches = new Map<string, string>();
+  const used = new Set<string>();
+  for (const { name, candidate } of pairs) {
+    if (!matches.has(name) && !used.has(candidate)) {
+      matches.set(name, candidate);
+      used.add(candidate);
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,77 @@
+/**
+ * EnvProof - Warning Checks
+ * Non-fatal checks for values that pass validation but look risky
+ */
+
+import type { ValidationRule } from "../types.js";
+
+/** Values commonly left in secrets from examples and tutorials */
+const PLACEHOLDER_SECRET =
+  /^(change[_-]?me|secret|password|passw0rd|admin|test|dummy|example|placeholder|todo|x+|your[_-].*|1234\d*)$/i;
+
+/** Secrets shorter than this are easy to brute-force */
+const MIN_SECRET_LENGTH = 12;
+
+/**
+ * Rules whose `params.value` is a limit the value can sit on
+ * `minLength` is left out: a value of exactly the minimum length is normal
+ */
+const LIMIT_RULES = new Set(["min", "max", "maxLength"]);
+
+/**
+ * Limits that are ordinary values rather than tight configuration
+ * 0 and 1 express sign and non-empty constraints such as `.positive()`,
+ * and 65535 is the top of the `.port()` range
+ */
+const IGNORED_LIMITS = new Set([0, 1, 65535]);
+
+/**
+ * Describe why a secret value is easy to guess
+ * Returns undefined for secrets that look strong enough
+ */
+export function getSecretWeakness(value: string): string | undefined {
+  if (PLACEHOLDER_SECRET.test(value.trim())) {
+    return "Secret looks like a placeholder value";
+  }
+  if (value.length < MIN_SECRET_LENGTH) {
+    return `Secret is shorter than ${MIN_SECRET_LENGTH} characters`;
+  }
+  if (new Set(value).size < 4) {
+    return "Secret has fewer than 4 distinct characters";
+  }
+  return undefined;
+}
+
+/**
+ * Find a min/max rule the value sits exactly on
+ * Limits in IGNORED_LIMITS are skipped
+ *
+ * @returns The rule that is only just satisfied, if any
+ */
+export function findLimitRule(
+  value: unknown,
+  rules: ValidationRule<unknown>[]
+): ValidationRule<unknown> | undefined {
+  return rules.find((rule) => {
+    const limit = rule.params?.value;
+    if (!LIMIT_RULES.has(rule.name) || typeof limit !== "number") {
+      return false;
+    }
+    if (IGNORED_LIMITS.has(limit)) {
+      return false;
+    }
+    return measure(value, rule.name) === limit;
+  });
+}
+
+/**
+ * Get the quantity a limit rule constrains: a length or the value itself
+ */
+function measure(value: unknown, ruleName: string): unknown {
+  if (ruleName.endsWith("Length")) {
+    return typeof value === "string" || Array.isArray(value)
+      ? value.length
+      : undefined;
+  }
+  return value;
+}
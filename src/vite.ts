@@ -0,0 +1,175 @@
+/**
+ * EnvProof - Vite Plugin
+ * Validate the environment when Vite resolves its config, and type
+ * `import.meta.env` from the schema
+ *
+ * Vite is not a dependency: the plugin only relies on the parts of its
+ * config it reads, and imports `loadEnv` from Vite at build time
+ */
+
+import * as path from "node:path";
+import type { EnvSchema, EnvOptions } from "./types.js";
+import { validate, handleValidationFailure } from "./validation/engine.js";
+import { formatPretty } from "./reporters/pretty.js";
+import { writeViteEnvDeclarations } from "./generator/declarations.js";
+import { loadSchema } from "./schema-loader.js";
+import type { LoadedSchema } from "./schema-loader.js";
+
+/** Vite's `loadEnv`: .env files for a mode merged with process.env */
+export type ViteLoadEnv = (
+  mode: string,
+  envDir: string,
+  prefixes?: string | string[]
+) => Record<string, string>;
+
+/** The parts of Vite's resolved config the plugin reads */
+export interface ViteResolvedConfig {
+  mode: string;
+  root: string;
+  envDir?: string | false;
+  envPrefix?: string | string[];
+  logger?: { warn(message: string): void };
+}
+
+/** Options for the EnvProof Vite plugin */
+export interface EnvProofViteOptions {
+  /**
+   * Schema, or path to a module exporting it, relative to Vite's root
+   * (default: searched for in Vite's root like the CLI)
+   */
+  schema?: EnvSchema | string;
+
+  /**
+   * Prefixes of the variables exposed to `import.meta.env`.
+   * Replaces Vite's `envPrefix` (default: Vite's, which defaults to "VITE_")
+   */
+  envPrefix?: string | string[];
+
+  /** Where to write `import.meta.env` typings, or false to skip (default: vite-env.d.ts) */
+  dts?: string | false;
+
+  /** Validation options */
+  validation?: Pick<EnvOptions, "environment" | "fileSuffix">;
+
+  /** Vite's `loadEnv` (default: imported from "vite") */
+  loadEnv?: ViteLoadEnv;
+}
+
+/** A Vite plugin, typed structurally so Vite need not be installed */
+export interface EnvProofVitePlugin {
+  name: string;
+  enforce: "pre";
+  config(): { envPrefix: string | string[] } | undefined;
+  configResolved(config: ViteResolvedConfig): Promise<void>;
+}
+
+/**
+ * Create a Vite plugin that validates the environment at build time
+ *
+ * The build fails with the pretty reporter's output when validation
+ * fails. Only variables named with a Vite `envPrefix` reach
+ * `import.meta.env`, and only those are typed in `vite-env.d.ts`
+ *
+ * @example
+ * ```typescript
+ * // vite.config.ts
+ * import { defineConfig } from "vite";
+ * import { envproof } from "envproof/vite";
+ * import { schema } from "./env.config";
+ *
+ * export default defineConfig({
+ *   plugins: [envproof({ schema })],
+ * });
+ * ```
+ */
+export function envproof(
+  options: EnvProofViteOptions = {}
+): EnvProofVitePlugin {
+  return {
+    name: "envproof",
+    enforce: "pre",
+
+    config() {
+      return options.envPrefix !== undefined
+        ? { envPrefix: options.envPrefix }
+        : undefined;
+    },
+
+    async configResolved(config) {
+      const schema = await resolveSchema(options.schema, config.root);
+      const envPrefix = options.envPrefix ?? config.envPrefix ?? "VITE_";
+      const envDir =
+        typeof config.envDir === "string"
+          ? path.resolve(config.root, config.envDir)
+          : config.root;
+
+      // An empty prefix list loads every variable, not only exposed ones
+      const loadEnv = options.loadEnv ?? (await importLoadEnv());
+      const source = loadEnv(config.mode, envDir, "");
+
+      const result = validate(schema, source, {
+        environment: config.mode,
+        ...options.validation,
+      });
+      if (!result.success) {
+        handleValidationFailure(result.errors, { reporter: "pretty" }, schema);
+      }
+      if (result.warnings.length > 0) {
+        config.logger?.warn(formatPretty(result.warnings));
+      }
+
+      if (options.dts !== false) {
+        const written = writeViteEnvDeclarations(schema, {
+          output: path.resolve(config.root, options.dts ?? "vite-env.d.ts"),
+          envPrefix,
+        });
+        if (!written.success) {
+          config.logger?.warn(`envproof: ${written.message}`);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Get the schema given to the plugin, loading it when given a path
+ *
+ * @param root - Vite's root, which schema paths are resolved from
+ */
+async function resolveSchema(
+  schema: EnvSchema | string | undefined,
+  root: string
+): Promise<EnvSchema> {
+  if (typeof schema === "object") {
+    return schema;
+  }
+
+  // Import failures are thrown rather than logged, failing the build
+  let loaded: LoadedSchema | null;
+  try {
+    loaded = await loadSchema(schema, { cwd: root });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`envproof: ${message}`, { cause: error });
+  }
+  if (!loaded) {
+    throw new Error(
+      schema !== undefined
+        ? `envproof: no schema found in ${schema}`
+        : "envproof: no schema found; pass `schema` to the Vite plugin"
+    );
+  }
+  return loaded.schema;
+}
+
+/**
+ * Import `loadEnv` from the Vite running the build
+ */
+async function importLoadEnv(): Promise<ViteLoadEnv> {
+  // A variable specifier keeps bundlers and tsc from resolving Vite here
+  const specifier = "vite";
+  const vite = (await import(specifier)) as { loadEnv: ViteLoadEnv };
+  return vite.loadEnv;
+}
+
+export default envproof;
@@ -11,6 +11,9 @@ import { pathToFileURL } from "node:url";
 import { runCheck } from "../src/cli/check.js";
 import { runGenerate } from "../src/cli/generate.js";
 import { runInit } from "../src/cli/init.js";
+import { runRun } from "../src/cli/run.js";
+import { runDocs } from "../src/cli/docs.js";
+import { runTypes } from "../src/cli/types.js";
 import { parseArgs } from "../src/cli/args.js";
 import { getCliVersion } from "../src/cli/version.js";
 
@@ -178,7 +181,10 @@ export const schema = {
     expect(errorSpy).toHaveBeenCalled();
 
     const output = String(errorSpy.mock.calls.at(-1)?.[0] ?? "");
-    const parsed = JSON.parse(output) as { success: boolean; errorCount: number };
+    const parsed = JSON.parse(output) as {
+      success: boolean;
+      errorCount: number;
+    };
     expect(parsed.success).toBe(false);
     expect(parsed.errorCount).toBeGreaterThan(0);
   });
@@ -215,7 +221,10 @@ export const schema = {
   });
 
   it("handles schema loading errors gracefully", async () => {
-    writeSchemaFile(process.cwd(), `throw new Error("Intentional load error");`);
+    writeSchemaFile(
+      process.cwd(),
+      `throw new Error("Intentional load error");`
+    );
 
     const exitCode = await runCheck();
     expect(exitCode).toBe(1);
@@ -249,6 +258,225 @@ export const schema = {
     ).toContain("export const schema");
   });
 
+  it("scaffolds files from a JSON Schema with init --from", () => {
+    fs.writeFileSync(
+      path.join(process.cwd(), "env.schema.json"),
+      JSON.stringify({
+        type: "object",
+        properties: {
+          PORT: { type: "integer", minimum: 1, maximum: 65535, default: 3000 },
+          API_KEY: { type: "string", writeOnly: true, format: "hostname" },
+        },
+        required: ["API_KEY"],
+      })
+    );
+    const warnSpy = vi
+      .spyOn(console, "warn")
+      .mockImplementation(() => undefined);
+
+    const exitCode = runInit({ from: "env.schema.json" });
+
+    expect(exitCode).toBe(0);
+    expect(
+      fs.readFileSync(path.join(process.cwd(), "env.config.ts"), "utf-8")
+    ).toContain("PORT: e.number().port().default(3000),");
+    expect(
+      fs.readFileSync(path.join(process.cwd(), ".env.example"), "utf-8")
+    ).toContain("API_KEY=");
+    expect(warnSpy).toHaveBeenCalledWith(
+      '⚠️  API_KEY: Format "hostname" is not supported and was ignored'
+    );
+  });
+
+  it("infers a schema from a .env file with init --from", async () => {
+    fs.writeFileSync(
+      path.join(process.cwd(), ".env.production"),
+      "PORT=8080\nDEBUG=false\nSESSION_SECRET=s3cr3t\n"
+    );
+
+    const exitCode = runInit({ from: ".env.production" });
+
+    expect(exitCode).toBe(0);
+    const code = fs.readFileSync(
+      path.join(process.cwd(), "env.config.ts"),
+      "utf-8"
+    );
+    expect(code).toContain("PORT: e.number().port(),");
+    expect(code).toContain("SESSION_SECRET: e.string().secret(),");
+    const example = fs.readFileSync(
+      path.join(process.cwd(), ".env.example"),
+      "utf-8"
+    );
+    expect(example).toContain("DEBUG=");
+    expect(example).not.toContain("s3cr3t");
+  });
+
+  it("fails init --from when the JSON Schema cannot be read", () => {
+    const exitCode = runInit({ from: "missing.json" });
+
+    expect(exitCode).toBe(1);
+    expect(fs.existsSync(path.join(process.cwd(), "env.config.ts"))).toBe(
+      false
+    );
+  });
+
+  it("generates Kubernetes manifests from a .env file", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = {
+  PORT: e.number().default(3000),
+  API_KEY: e.string().secret(),
+};`
+    );
+    fs.writeFileSync(
+      path.join(process.cwd(), ".env.production"),
+      "PORT=8080\nAPI_KEY=abc\n"
+    );
+
+    const exitCode = await runGenerate({
+      format: "k8s",
+      envFiles: [".env.production"],
+      namespace: "prod",
+    });
+
+    expect(exitCode).toBe(0);
+    const content = fs.readFileSync(
+      path.join(process.cwd(), "env.k8s.yaml"),
+      "utf-8"
+    );
+    expect(content).toContain('  PORT: "8080"');
+    expect(content).toContain('  API_KEY: "YWJj"');
+    expect(content).toContain("#         name: app-env-secret");
+  });
+
+  it("generates a Compose environment block", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = { PORT: e.number().default(3000) };`
+    );
+
+    const exitCode = await runGenerate({ format: "compose", name: "api" });
+
+    expect(exitCode).toBe(0);
+    expect(
+      fs.readFileSync(path.join(process.cwd(), "compose.env.yaml"), "utf-8")
+    ).toContain('  api:\n    environment:\n      PORT: "${PORT:-3000}"');
+  });
+
+  it("fails k8s generation when the .env file is missing", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = { PORT: e.number().default(3000) };`
+    );
+
+    const exitCode = await runGenerate({
+      format: "k8s",
+      envFiles: [".env.missing"],
+    });
+
+    expect(exitCode).toBe(1);
+    expect(errorSpy).toHaveBeenCalledWith(
+      "❌ .env file not found: .env.missing"
+    );
+  });
+
+  it("writes process.env declarations with types command", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = {
+  NODE_ENV: e.enum(["development", "production"]),
+};`
+    );
+
+    expect(await runTypes()).toBe(0);
+    expect(
+      fs.readFileSync(path.join(process.cwd(), "env.d.ts"), "utf-8")
+    ).toContain('NODE_ENV: "development" | "production";');
+
+    // Regenerating replaces the generated file
+    expect(await runTypes()).toBe(0);
+  });
+
+  it("does not overwrite hand-written declarations without force", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = { PORT: e.number().default(3000) };`
+    );
+    fs.writeFileSync(
+      path.join(process.cwd(), "env.d.ts"),
+      "declare const x: 1;"
+    );
+
+    expect(await runTypes()).toBe(1);
+    expect(await runTypes({ force: true })).toBe(0);
+  });
+
+  it("writes a SARIF report pointing at the .env line", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = { PORT: e.number().port() };`
+    );
+    fs.writeFileSync(path.join(process.cwd(), ".env.ci"), "# CI\nPORT=http\n");
+    delete process.env.PORT;
+
+    const exitCode = await runCheck({
+      reporter: "sarif",
+      envFiles: [".env.ci"],
+      output: "envproof.sarif",
+    });
+
+    expect(exitCode).toBe(1);
+    const log = JSON.parse(
+      fs.readFileSync(path.join(process.cwd(), "envproof.sarif"), "utf-8")
+    );
+    expect(log.runs[0].results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: ".env.ci" },
+      region: { startLine: 2 },
+    });
+  });
+
+  it("prints a passing JUnit report to stdout", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = { PORT: e.number().default(3000) };`
+    );
+
+    const exitCode = await runCheck({ reporter: "junit" });
+
+    expect(exitCode).toBe(0);
+    expect(logSpy).toHaveBeenCalledTimes(1);
+    expect(String(logSpy.mock.calls[0]?.[0])).toContain(
+      '<testcase classname="envproof" name="PORT"/>'
+    );
+  });
+
+  it("fails check past --max-warnings", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = { SESSION_SECRET: e.string().secret() };`
+    );
+    process.env.SESSION_SECRET = "changeme";
+
+    try {
+      expect(await runCheck({ reporter: "minimal" })).toBe(0);
+      expect(errorSpy).toHaveBeenCalledWith(
+        "EnvProof: 1 warning: SESSION_SECRET"
+      );
+      expect(await runCheck({ reporter: "minimal", maxWarnings: 0 })).toBe(1);
+      expect(errorSpy).toHaveBeenCalledWith("❌ Too many warnings: 1 (max 0)");
+    } finally {
+      delete process.env.SESSION_SECRET;
+    }
+  });
+
   it("parses command-line arguments", () => {
     const parsed = parseArgs([
       "check",
@@ -263,6 +491,27 @@ export const schema = {
     expect(parsed.schema).toBe("./env.ts");
     expect(parsed.reporter).toBe("json");
     expect(parsed.strict).toBe(true);
+    expect(parsed.errors).toEqual([]);
+  });
+
+  it("reports invalid --reporter and --max-warnings values", () => {
+    expect(parseArgs(["check", "--max-warnings", "2"]).maxWarnings).toBe(2);
+
+    for (const value of ["abc", "-1", undefined]) {
+      const parsed = parseArgs(
+        value === undefined
+          ? ["check", "--max-warnings"]
+          : ["check", "--max-warnings", value]
+      );
+      expect(parsed.maxWarnings).toBeUndefined();
+      expect(parsed.errors).toEqual([
+        `--max-warnings needs a non-negative integer, got ${value ?? "nothing"}`,
+      ]);
+    }
+
+    expect(parseArgs(["check", "--reporter", "xml"]).errors).toEqual([
+      "Unknown reporter: xml. Supported reporters: pretty, json, minimal, github, junit, sarif",
+    ]);
   });
 
   it("parses generate arguments", () => {
@@ -271,9 +520,12 @@ export const schema = {
       "--output",
       ".env.template",
       "--force",
+      "--format",
+      "json-schema",
     ]);
 
     expect(parsed.command).toBe("generate");
+    expect(parsed.format).toBe("json-schema");
     expect(parsed.output).toBe(".env.template");
     expect(parsed.force).toBe(true);
   });
@@ -293,6 +545,203 @@ export const schema = {
     expect(logSpy).toBeDefined();
   });
 
+  it("generates a JSON Schema document", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = {
+  PORT: e.number().port(),
+};`
+    );
+
+    const exitCode = await runGenerate({ format: "json-schema" });
+
+    expect(exitCode).toBe(0);
+    const document = JSON.parse(
+      fs.readFileSync("env.schema.json", "utf-8")
+    ) as { required: string[] };
+    expect(document.required).toEqual(["PORT"]);
+  });
+
+  it("rejects unknown generate formats", async () => {
+    const exitCode = await runGenerate({ format: "xml" });
+
+    expect(exitCode).toBe(1);
+    expect(errorSpy).toHaveBeenCalledWith("❌ Unknown format: xml");
+  });
+
+  it("writes Markdown docs into README markers", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = {
+  DB_HOST: e.string(),
+  DB_PORT: e.number().default(5432),
+};`
+    );
+    fs.writeFileSync(
+      "README.md",
+      "# Service\n\n<!-- envproof:start -->\n<!-- envproof:end -->\n",
+      "utf-8"
+    );
+
+    const exitCode = await runDocs({ groupByPrefix: true });
+
+    expect(exitCode).toBe(0);
+    const readme = fs.readFileSync("README.md", "utf-8");
+    expect(readme).toContain("# Service");
+    expect(readme).toContain("### `DB_*`");
+    expect(readme).toContain("| `DB_PORT` | number | no | `5432` |");
+  });
+
+  it("parses docs arguments", () => {
+    const parsed = parseArgs(["docs", "--group-by-prefix", "-o", "docs.md"]);
+
+    expect(parsed.command).toBe("docs");
+    expect(parsed.groupByPrefix).toBe(true);
+    expect(parsed.output).toBe("docs.md");
+  });
+
+  it("parses run arguments", () => {
+    const parsed = parseArgs([
+      "run",
+      "--env",
+      "production",
+      "--env-file",
+      ".env",
+      "--env-file",
+      ".env.ci",
+      "--",
+      "node",
+      "server.js",
+      "--schema",
+      "child-flag",
+    ]);
+
+    expect(parsed.command).toBe("run");
+    expect(parsed.env).toBe("production");
+    expect(parsed.envFiles).toEqual([".env", ".env.ci"]);
+    expect(parsed.schema).toBeUndefined();
+    expect(parsed.commandArgs).toEqual([
+      "node",
+      "server.js",
+      "--schema",
+      "child-flag",
+    ]);
+  });
+
+  it("runs a command with dotenv values and schema defaults", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = {
+  API_KEY: e.string(),
+  PORT: e.number().default(3000),
+  ORIGINS: e.array(e.string()).separator(";").default(["a", "b"]),
+};`
+    );
+    fs.writeFileSync(".env", "API_KEY=${KEY_PREFIX:-sk}_123\n", "utf-8");
+
+    const exitCode = await runRun({
+      command: [
+        process.execPath,
+        "-e",
+        `require("fs").writeFileSync("out.json", JSON.stringify(process.env))`,
+      ],
+    });
+
+    expect(exitCode).toBe(0);
+    const childEnv = JSON.parse(fs.readFileSync("out.json", "utf-8")) as Record<
+      string,
+      string
+    >;
+    expect(childEnv.API_KEY).toBe("sk_123");
+    expect(childEnv.PORT).toBe("3000");
+    expect(childEnv.ORIGINS).toBe("a;b");
+  });
+
+  it("passes defaultFor() defaults of the environment to the command", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = {
+  LOG_LEVEL: e.string().default("info").defaultFor({ development: "debug" }),
+};`
+    );
+
+    const exitCode = await runRun({
+      env: "development",
+      command: [
+        process.execPath,
+        "-e",
+        `require("fs").writeFileSync("out.json", JSON.stringify(process.env))`,
+      ],
+    });
+
+    expect(exitCode).toBe(0);
+    const childEnv = JSON.parse(fs.readFileSync("out.json", "utf-8")) as Record<
+      string,
+      string
+    >;
+    expect(childEnv.LOG_LEVEL).toBe("debug");
+  });
+
+  it("does not start the command when validation fails", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = {
+  API_KEY: e.string(),
+};`
+    );
+
+    const exitCode = await runRun({
+      command: [
+        process.execPath,
+        "-e",
+        `require("fs").writeFileSync("ran", "")`,
+      ],
+      reporter: "minimal",
+    });
+
+    expect(exitCode).toBe(1);
+    expect(fs.existsSync("ran")).toBe(false);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("API_KEY"));
+  });
+
+  it("forwards the child exit code", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = { PORT: e.number().default(3000) };`
+    );
+
+    const exitCode = await runRun({
+      command: [process.execPath, "-e", "process.exit(3)"],
+    });
+
+    expect(exitCode).toBe(3);
+  });
+
+  it("maps a child killed by a signal to 128 + signal number", async () => {
+    writeSchemaFile(
+      process.cwd(),
+      `import { e } from "${srcIndexUrl}";
+export const schema = { PORT: e.number().default(3000) };`
+    );
+
+    const exitCode = await runRun({
+      command: [process.execPath, "-e", `process.kill(process.pid, "SIGTERM")`],
+    });
+
+    expect(exitCode).toBe(128 + os.constants.signals.SIGTERM);
+  });
+
+  it("fails run without a command", async () => {
+    const exitCode = await runRun({ command: [] });
+    expect(exitCode).toBe(1);
+  });
+
   it("reads version from package.json", () => {
     const packageJson = JSON.parse(
       fs.readFileSync(path.join(repoRoot, "package.json"), "utf-8")
@@ -668,3 +668,750 @@ describe("Cross-field Validation", () => {
     }
   });
 });
+
+describe("Object Schema", () => {
+  const dbSchema = {
+    db: e.object(
+      { HOST: e.string(), PORT: e.number().port().default(5432) },
+      { prefix: "DB_" }
+    ),
+  };
+
+  it("should resolve prefixed variables into a nested object", () => {
+    const result = validateEnv(dbSchema, {
+      source: { DB_HOST: "localhost", DB_PORT: "6543" },
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.db).toEqual({ HOST: "localhost", PORT: 6543 });
+  });
+
+  it("should report errors with the full variable name", () => {
+    const result = validateEnv(dbSchema, { source: { DB_PORT: "abc" } });
+    expect(result.success).toBe(false);
+    expect(result.errors.map((err) => err.variable).sort()).toEqual([
+      "DB_HOST",
+      "DB_PORT",
+    ]);
+  });
+
+  it("should nest groups recursively with concatenated prefixes", () => {
+    const schema = {
+      db: e.object(
+        {
+          primary: e.object({ HOST: e.string() }, { prefix: "PRIMARY_" }),
+          replica: e.object({ HOST: e.string() }, { prefix: "REPLICA_" }),
+        },
+        { prefix: "DB_" }
+      ),
+    };
+    const result = validateEnv(schema, {
+      source: { DB_PRIMARY_HOST: "a", DB_REPLICA_HOST: "b" },
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.db.primary.HOST).toBe("a");
+    expect(result.data?.db.replica.HOST).toBe("b");
+  });
+
+  it("should resolve optional groups to undefined when unset", () => {
+    const schema = {
+      cache: e.object({ URL: e.url() }, { prefix: "CACHE_" }).optional(),
+    };
+    const unset = validateEnv(schema, { source: {} });
+    expect(unset.success).toBe(true);
+    expect(unset.data?.cache).toBeUndefined();
+
+    const invalid = validateEnv(schema, { source: { CACHE_URL: "nope" } });
+    expect(invalid.success).toBe(false);
+    expect(invalid.errors[0]?.variable).toBe("CACHE_URL");
+  });
+
+  it("should count *_FILE and legacy names as setting an optional group", () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "envproof-group-"));
+    const urlFile = path.join(tempDir, "cache_url");
+    fs.writeFileSync(urlFile, "nope\n");
+    const schema = {
+      cache: e
+        .object(
+          {
+            URL: e.url().fromFile(),
+            TTL: e.number().renamedFrom("EXPIRY"),
+          },
+          { prefix: "CACHE_" }
+        )
+        .optional(),
+    };
+
+    try {
+      const fromFile = validateEnv(schema, {
+        source: { CACHE_URL_FILE: urlFile },
+      });
+      expect(fromFile.success).toBe(false);
+      expect(fromFile.errors.map((error) => error.variable)).toEqual([
+        "CACHE_URL",
+        "CACHE_TTL",
+      ]);
+
+      const fromLegacy = validateEnv(schema, {
+        source: { CACHE_EXPIRY: "60" },
+      });
+      expect(fromLegacy.success).toBe(false);
+      expect(fromLegacy.errors.map((error) => error.variable)).toEqual([
+        "CACHE_URL",
+      ]);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should treat nested variables as known in strict mode", () => {
+    const result = validateEnv(dbSchema, {
+      source: { DB_HOST: "localhost", DB_USER: "admin" },
+      strict: true,
+    });
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]?.reason).toBe("unknown");
+    expect(result.errors[0]?.variable).toBe("DB_USER");
+  });
+
+  it("should apply the global prefix before group prefixes", () => {
+    const result = validateEnv(dbSchema, {
+      source: { APP_DB_HOST: "localhost" },
+      prefix: "APP_",
+      stripPrefix: true,
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.db.HOST).toBe("localhost");
+  });
+});
+
+describe("Union Schema", () => {
+  it("should use the first member that accepts the value", () => {
+    const schema = { REDIS: e.union([e.url(), e.path()]) };
+
+    const asUrl = validateEnv(schema, {
+      source: { REDIS: "redis://localhost:6379" },
+    });
+    expect(asUrl.data?.REDIS).toBeInstanceOf(URL);
+
+    const asPath = validateEnv(schema, {
+      source: { REDIS: "/var/run/redis.sock" },
+    });
+    expect(asPath.data?.REDIS).toBe("/var/run/redis.sock");
+  });
+
+  it("should run member rules before accepting a member", () => {
+    const schema = {
+      TIMEOUT: e.union([e.duration().max("1m"), e.enum(["infinite"] as const)]),
+    };
+
+    expect(
+      validateEnv(schema, { source: { TIMEOUT: "30s" } }).data?.TIMEOUT
+    ).toBe(30000);
+    expect(
+      validateEnv(schema, { source: { TIMEOUT: "infinite" } }).data?.TIMEOUT
+    ).toBe("infinite");
+    expect(validateEnv(schema, { source: { TIMEOUT: "2h" } }).success).toBe(
+      false
+    );
+  });
+
+  it("should report one aggregated error listing each member failure", () => {
+    const schema = {
+      PORT: e.union([e.number().port(), e.enum(["auto"] as const)]),
+    };
+    const result = validateEnv(schema, { source: { PORT: "99999" } });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]?.reason).toBe("invalid_type");
+    expect(result.errors[0]?.expected).toBe("integer, 1-65535 | enum (auto)");
+    expect(result.errors[0]?.message).toContain("Must be at most 65535");
+    expect(result.errors[0]?.message).toContain("Must be one of: auto");
+  });
+
+  it("should apply member transforms and union rules", () => {
+    const schema = {
+      NAME: e
+        .union([e.string().transform((s) => s.toUpperCase())])
+        .refine((value) => value !== "ROOT", "Must not be root"),
+    };
+
+    expect(validateEnv(schema, { source: { NAME: "app" } }).data?.NAME).toBe(
+      "APP"
+    );
+    expect(validateEnv(schema, { source: { NAME: "root" } }).success).toBe(
+      false
+    );
+  });
+
+  it("should describe the type as a union", () => {
+    expect(e.union([e.url(), e.path()]).getTypeDescription()).toBe(
+      "URL | path"
+    );
+    expect(e.union([e.url(), e.path()]).getExample()).toBe(
+      "https://example.com"
+    );
+  });
+
+  it("should require at least one member", () => {
+    expect(() => e.union([])).toThrow("Union must have at least one member");
+  });
+});
+
+describe("Discriminated Schema", () => {
+  const schema = {
+    storage: e.discriminate("STORAGE_DRIVER", {
+      s3: { S3_BUCKET: e.string(), S3_REGION: e.string() },
+      local: { STORAGE_PATH: e.path() },
+    }),
+  };
+
+  it("should validate only the selected branch", () => {
+    const result = validateEnv(schema, {
+      source: { STORAGE_DRIVER: "local", STORAGE_PATH: "/data" },
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.storage).toEqual({
+      STORAGE_DRIVER: "local",
+      STORAGE_PATH: "/data",
+    });
+  });
+
+  it("should report missing variables of the selected branch", () => {
+    const result = validateEnv(schema, {
+      source: { STORAGE_DRIVER: "s3", S3_BUCKET: "assets" },
+    });
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]?.variable).toBe("S3_REGION");
+    expect(result.errors[0]?.reason).toBe("missing");
+  });
+
+  it("should reject unknown discriminator values", () => {
+    const result = validateEnv(schema, { source: { STORAGE_DRIVER: "gcs" } });
+    expect(result.success).toBe(false);
+    expect(result.errors[0]?.variable).toBe("STORAGE_DRIVER");
+    expect(result.errors[0]?.message).toContain("s3, local");
+  });
+
+  it("should fall back to the default branch", () => {
+    const result = validateEnv(
+      { storage: schema.storage.default("local") },
+      { source: { STORAGE_PATH: "/data" } }
+    );
+    expect(result.success).toBe(true);
+    expect(result.data?.storage.STORAGE_DRIVER).toBe("local");
+  });
+
+  it("should resolve to undefined when optional and unset", () => {
+    const result = validateEnv(
+      { storage: schema.storage.optional() },
+      { source: {} }
+    );
+    expect(result.success).toBe(true);
+    expect(result.data?.storage).toBeUndefined();
+  });
+
+  it("should report variables of other branches in strict mode", () => {
+    const result = validateEnv(schema, {
+      source: {
+        STORAGE_DRIVER: "local",
+        STORAGE_PATH: "/data",
+        S3_BUCKET: "leftover",
+      },
+      strict: true,
+    });
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ variable: "S3_BUCKET", reason: "unknown" }),
+    ]);
+  });
+
+  it("should treat every branch as known without a selected branch", () => {
+    const result = validateEnv(
+      { storage: schema.storage.optional() },
+      { source: { S3_BUCKET: "leftover" }, strict: true }
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it("should compose with createEnv", () => {
+    const env = createEnv(
+      { PORT: e.number().default(3000), ...schema },
+      {
+        source: { STORAGE_DRIVER: "s3", S3_BUCKET: "a", S3_REGION: "eu" },
+      }
+    );
+    expect(env.PORT).toBe(3000);
+    expect(env.storage.STORAGE_DRIVER).toBe("s3");
+  });
+});
+
+describe("File Secrets", () => {
+  let tempDir: string;
+  let secretFile: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "envproof-secret-"));
+    secretFile = path.join(tempDir, "db_pw");
+    fs.writeFileSync(secretFile, "s3cr3t\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("should read values from *_FILE when fileSuffix is enabled", () => {
+    const schema = { DATABASE_PASSWORD: e.string() };
+    const result = validateEnv(schema, {
+      source: { DATABASE_PASSWORD_FILE: secretFile },
+      fileSuffix: true,
+    });
+    expect(result.success).toBe(true);
+    expect(result.data?.DATABASE_PASSWORD).toBe("s3cr3t");
+  });
+
+  it("should support a custom suffix", () => {
+    const schema = { DATABASE_PASSWORD: e.string() };
+    const result = validateEnv(schema, {
+      source: { DATABASE_PASSWORD_PATH: secretFile },
+      fileSuffix: "_PATH",
+    });
+    expect(result.data?.DATABASE_PASSWORD).toBe("s3cr3t");
+  });
+
+  it("should read values per field with fromFile()", () => {
+    const schema = {
+      DATABASE_PASSWORD: e.string().fromFile(),
+      OTHER: e.string().optional(),
+    };
+    const result = validateEnv(schema, {
+      source: { DATABASE_PASSWORD_FILE: secretFile, OTHER_FILE: secretFile },
+    });
+    expect(result.data?.DATABASE_PASSWORD).toBe("s3cr3t");
+    expect(result.data?.OTHER).toBeUndefined();
+  });
+
+  it("should fall back to the plain variable when *_FILE is unset", () => {
+    const schema = { DATABASE_PASSWORD: e.string().fromFile() };
+    const result = validateEnv(schema, {
+      source: { DATABASE_PASSWORD: "plain" },
+    });
+    expect(result.data?.DATABASE_PASSWORD).toBe("plain");
+  });
+
+  it("should run file contents through coercion and rules", () => {
+    fs.writeFileSync(secretFile, "abc\n");
+    const schema = { PORT: e.number().fromFile() };
+    const result = validateEnv(schema, { source: { PORT_FILE: secretFile } });
+    expect(result.success).toBe(false);
+    expect(result.errors[0]?.reason).toBe("invalid_type");
+    expect(result.errors[0]?.isSecret).toBe(true);
+    expect(result.errors[0]?.received).toBe("[REDACTED]");
+  });
+
+  it("should treat file values as secrets in warnings", () => {
+    const schema = { DATABASE_PASSWORD: e.string().maxLength(6).fromFile() };
+    const result = validateEnv(schema, {
+      source: { DATABASE_PASSWORD_FILE: secretFile },
+    });
+    expect(result.success).toBe(true);
+    expect(result.warnings.map((warning) => warning.reason)).toEqual([
+      "weak_secret",
+      "near_limit",
+    ]);
+    for (const warning of result.warnings) {
+      expect(warning.isSecret).toBe(true);
+      expect(JSON.stringify(warning)).not.toContain("s3cr3t");
+    }
+  });
+
+  it("should report missing files with the file_error reason", () => {
+    const schema = { DATABASE_PASSWORD: e.string().fromFile() };
+    const missingFile = path.join(tempDir, "missing");
+    const result = validateEnv(schema, {
+      source: { DATABASE_PASSWORD_FILE: missingFile },
+    });
+    expect(result.success).toBe(false);
+    expect(result.errors[0]?.variable).toBe("DATABASE_PASSWORD");
+    expect(result.errors[0]?.reason).toBe("file_error");
+    expect(result.errors[0]?.received).toBe(missingFile);
+  });
+
+  it("should treat *_FILE variables as known in strict mode", () => {
+    const schema = { DATABASE_PASSWORD: e.string() };
+    const result = validateEnv(schema, {
+      source: { DATABASE_PASSWORD_FILE: secretFile },
+      fileSuffix: true,
+      strict: true,
+    });
+    expect(result.success).toBe(true);
+  });
+});
+
+describe("Deprecation and Renames", () => {
+  it("warns when a deprecated variable is set", () => {
+    const schema = {
+      LEGACY_MODE: e.boolean().optional().deprecated("Removed in v3"),
+    };
+
+    expect(validateEnv(schema, { source: {} }).warnings).toEqual([]);
+
+    const result = validateEnv(schema, { source: { LEGACY_MODE: "true" } });
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        variable: "LEGACY_MODE",
+        reason: "deprecated",
+        message: "Removed in v3",
+        severity: "warning",
+      }),
+    ]);
+  });
+
+  it("reads a legacy name and warns with the new name", () => {
+    const schema = {
+      DATABASE_URL: e.url().renamedFrom("DB_URL", "POSTGRES_URL"),
+    };
+
+    const result = validateEnv(schema, {
+      source: { POSTGRES_URL: "postgres://localhost/db" },
+      strict: true,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.DATABASE_URL.host).toBe("localhost");
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        variable: "POSTGRES_URL",
+        reason: "deprecated",
+        message: "POSTGRES_URL is deprecated; rename it to DATABASE_URL",
+      }),
+    ]);
+  });
+
+  it("accepts old and new names set to the same value", () => {
+    const schema = { PORT: e.number().renamedFrom("HTTP_PORT") };
+
+    const result = validateEnv(schema, {
+      source: { PORT: "8080", HTTP_PORT: "8080" },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it("fails when old and new names conflict", () => {
+    const schema = { PORT: e.number().renamedFrom("HTTP_PORT") };
+
+    const result = validateEnv(schema, {
+      source: { PORT: "8080", HTTP_PORT: "3000" },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        variable: "PORT",
+        reason: "alias_conflict",
+        message: "PORT and HTTP_PORT are set to different values",
+      }),
+    ]);
+  });
+
+  it("resolves legacy names within object groups", () => {
+    const schema = {
+      db: e.object(
+        { HOST: e.string().renamedFrom("HOSTNAME") },
+        { prefix: "DB_" }
+      ),
+    };
+
+    const result = validateEnv(schema, { source: { DB_HOSTNAME: "db.local" } });
+
+    expect(result.data?.db.HOST).toBe("db.local");
+    expect(result.warnings?.[0]?.variable).toBe("DB_HOSTNAME");
+  });
+});
+
+describe("Conditional Requirements", () => {
+  const schema = {
+    AUTH_MODE: e.enum(["basic", "oauth"] as const).default("basic"),
+    OAUTH_CLIENT_ID: e.string().optional().requiredIf("AUTH_MODE", "oauth"),
+  };
+
+  it("requires a variable when another has a given value", () => {
+    const result = validateEnv(schema, { source: { AUTH_MODE: "oauth" } });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        variable: "OAUTH_CLIENT_ID",
+        reason: "missing",
+        message: 'Required when AUTH_MODE is "oauth"',
+        condition: 'AUTH_MODE is "oauth"',
+      }),
+    ]);
+  });
+
+  it("keeps the variable optional when the condition does not hold", () => {
+    expect(validateEnv(schema, { source: {} }).success).toBe(true);
+    expect(
+      validateEnv(schema, { source: { AUTH_MODE: "basic" } }).success
+    ).toBe(true);
+  });
+
+  it("accepts a list of values", () => {
+    const result = validateEnv(
+      {
+        SMTP_HOST: e.string().optional().requiredIf("MAILER", ["smtp", "ses"]),
+      },
+      { source: { MAILER: "ses" } }
+    );
+
+    expect(result.errors?.[0]?.message).toBe(
+      'Required when MAILER is one of "smtp", "ses"'
+    );
+  });
+
+  it("evaluates custom predicates against the raw source", () => {
+    const schema = {
+      FEATURE_X_KEY: e
+        .string()
+        .default("unused")
+        .requiredWhen((raw) => raw.FEATURE_X === "true", "FEATURE_X is on"),
+    };
+
+    const off = validateEnv(schema, { source: { FEATURE_X: "false" } });
+    expect(off.data?.FEATURE_X_KEY).toBe("unused");
+
+    const on = validateEnv(schema, { source: { FEATURE_X: "true" } });
+    expect(on.errors?.[0]?.message).toBe("Required when FEATURE_X is on");
+  });
+
+  it("explains requireInProduction failures", () => {
+    const result = validateEnv(
+      { API_KEY: e.string().optional() },
+      {
+        source: {},
+        environment: "production",
+        requireInProduction: ["API_KEY"],
+      }
+    );
+
+    expect(result.errors?.[0]?.message).toBe(
+      'Required when environment is "production"'
+    );
+  });
+});
+
+describe("Environment-specific Defaults", () => {
+  const schema = {
+    PORT: e.number().default(3000).defaultFor({ test: 0, production: 80 }),
+    DEBUG: e.boolean().optional().defaultFor({ development: true }),
+  };
+
+  it("picks the default for the current environment", () => {
+    const result = validateEnv(schema, {
+      source: {},
+      environment: "production",
+    });
+
+    expect(result.data).toEqual({ PORT: 80, DEBUG: undefined });
+  });
+
+  it("wins over optional", () => {
+    const result = validateEnv(schema, {
+      source: {},
+      environment: "development",
+    });
+
+    expect(result.data).toEqual({ PORT: 3000, DEBUG: true });
+  });
+
+  it("falls back to the regular default", () => {
+    expect(validateEnv(schema, { source: {} }).data?.PORT).toBe(3000);
+    expect(
+      validateEnv(schema, { source: {}, environment: "staging" }).data?.PORT
+    ).toBe(3000);
+  });
+
+  it("uses falsy defaults", () => {
+    const result = validateEnv(schema, { source: {}, environment: "test" });
+    expect(result.data?.PORT).toBe(0);
+  });
+
+  it("never replaces a set value", () => {
+    const result = validateEnv(schema, {
+      source: { PORT: "8080" },
+      environment: "production",
+    });
+    expect(result.data?.PORT).toBe(8080);
+  });
+
+  it("keeps required variables required in other environments", () => {
+    const schema = {
+      API_URL: e.url().defaultFor({ test: "http://localhost" }),
+    };
+
+    expect(
+      validateEnv(schema, { source: {}, environment: "test" }).success
+    ).toBe(true);
+    expect(
+      validateEnv(schema, { source: {}, environment: "production" }).errors?.[0]
+        ?.reason
+    ).toBe("missing");
+  });
+
+  it("accepts duration strings", () => {
+    const result = validateEnv(
+      { TTL: e.duration().default("1h").defaultFor({ test: "1s" }) },
+      { source: {}, environment: "test" }
+    );
+    expect(result.data?.TTL).toBe(1000);
+  });
+});
+
+describe("Client/Server Split", () => {
+  const server = { DATABASE_URL: e.url() };
+  const client = { NEXT_PUBLIC_API_URL: e.url() };
+  const runtimeEnv = {
+    DATABASE_URL: "postgres://localhost/app",
+    NEXT_PUBLIC_API_URL: "https://api.example.com",
+  };
+
+  it("validates both sets on the server", () => {
+    const env = createEnv({
+      server,
+      client,
+      clientPrefix: "NEXT_PUBLIC_",
+      runtimeEnv,
+      isServer: true,
+    });
+
+    expect(env.DATABASE_URL.protocol).toBe("postgres:");
+    expect(env.NEXT_PUBLIC_API_URL.hostname).toBe("api.example.com");
+  });
+
+  it("fails on the server when a server variable is missing", () => {
+    expect(() =>
+      createEnv({
+        server,
+        client,
+        clientPrefix: "NEXT_PUBLIC_",
+        runtimeEnv: { NEXT_PUBLIC_API_URL: "https://api.example.com" },
+        isServer: true,
+      })
+    ).toThrow(/DATABASE_URL/);
+  });
+
+  it("only validates client variables on the client", () => {
+    const env = createEnv({
+      server,
+      client,
+      clientPrefix: "NEXT_PUBLIC_",
+      runtimeEnv: { NEXT_PUBLIC_API_URL: "https://api.example.com" },
+      isServer: false,
+    });
+
+    expect(env.NEXT_PUBLIC_API_URL.hostname).toBe("api.example.com");
+  });
+
+  it("throws when client code reads a server variable", () => {
+    const env = createEnv({
+      server,
+      client,
+      clientPrefix: "NEXT_PUBLIC_",
+      runtimeEnv,
+      isServer: false,
+    });
+
+    expect(() => env.DATABASE_URL).toThrow(
+      'Attempted to access server-only variable "DATABASE_URL" on the client'
+    );
+    expect(Object.keys(env)).toEqual(["NEXT_PUBLIC_API_URL"]);
+  });
+
+  it("enforces the client prefix", () => {
+    expect(() =>
+      createEnv({
+        server,
+        client: { API_URL: e.url() },
+        clientPrefix: "NEXT_PUBLIC_",
+        runtimeEnv,
+      })
+    ).toThrow('Client variables must start with "NEXT_PUBLIC_": API_URL');
+
+    expect(() =>
+      createEnv({
+        server: { NEXT_PUBLIC_SECRET: e.string() },
+        client,
+        clientPrefix: "NEXT_PUBLIC_",
+        runtimeEnv,
+      })
+    ).toThrow(
+      'Server variables must not start with "NEXT_PUBLIC_": NEXT_PUBLIC_SECRET'
+    );
+  });
+
+  it("enforces the client prefix on grouped variables", () => {
+    expect(() =>
+      createEnv({
+        server,
+        client: { api: e.object({ URL: e.url() }, { prefix: "API_" }) },
+        clientPrefix: "NEXT_PUBLIC_",
+        runtimeEnv,
+      })
+    ).toThrow('Client variables must start with "NEXT_PUBLIC_": API_URL');
+
+    expect(() =>
+      createEnv({
+        server: {
+          stripe: e.object({ KEY: e.string() }, { prefix: "NEXT_PUBLIC_" }),
+        },
+        client,
+        clientPrefix: "NEXT_PUBLIC_",
+        runtimeEnv,
+      })
+    ).toThrow(
+      'Server variables must not start with "NEXT_PUBLIC_": NEXT_PUBLIC_KEY'
+    );
+  });
+
+  it("throws when client code reads a server group or its variables", () => {
+    const env = createEnv({
+      server: { db: e.object({ URL: e.url() }, { prefix: "DB_" }) },
+      client: {
+        api: e.object({ URL: e.url() }, { prefix: "NEXT_PUBLIC_API_" }),
+      },
+      clientPrefix: "NEXT_PUBLIC_",
+      runtimeEnv: {
+        DB_URL: "postgres://localhost/app",
+        NEXT_PUBLIC_API_URL: "https://api.example.com",
+      },
+      isServer: false,
+    });
+
+    expect(env.api.URL.hostname).toBe("api.example.com");
+    expect(() => env.db).toThrow(
+      'Attempted to access server-only variable "db" on the client'
+    );
+    expect(() => Reflect.get(env, "DB_URL")).toThrow(
+      'Attempted to access server-only variable "DB_URL" on the client'
+    );
+  });
+
+  it("defaults to process.env and server detection", () => {
+    process.env.ENVPROOF_SPLIT_TEST = "1";
+    try {
+      const env = createEnv({
+        server: { ENVPROOF_SPLIT_TEST: e.number() },
+        client: {},
+        clientPrefix: "NEXT_PUBLIC_",
+      });
+      expect(env.ENVPROOF_SPLIT_TEST).toBe(1);
+    } finally {
+      delete process.env.ENVPROOF_SPLIT_TEST;
+    }
+  });
+});
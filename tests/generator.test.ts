@@ -7,7 +7,25 @@ import { describe, it, expect } from "vitest";
 import * as fs from "node:fs";
 import * as os from "node:os";
 import * as path from "node:path";
-import { e, generateExample } from "../src/index.js";
+import {
+  e,
+  generateExample,
+  formatEnvValue,
+  generateMarkdownDocs,
+  updateMarkdownDocs,
+  writeMarkdownDocs,
+  generateTypeDeclarations,
+  generateKubernetesManifests,
+  generateComposeEnvironment,
+  generateDockerfileEnv,
+  toJsonSchema,
+  fromJsonSchema,
+  generateSchemaCode,
+  inferSchema,
+  inferSchemaCode,
+  validateEnv,
+} from "../src/index.js";
+import type { AnySchema } from "../src/index.js";
 import { writeExampleFile } from "../src/generator/index.js";
 
 describe("generateExample", () => {
@@ -44,6 +62,28 @@ describe("generateExample", () => {
     expect(output).toContain("# PORT=");
   });
 
+  it("lists conditions that make a variable required", () => {
+    const schema = {
+      OAUTH_CLIENT_ID: e.string().optional().requiredIf("AUTH_MODE", "oauth"),
+    };
+
+    const output = generateExample(schema);
+
+    expect(output).toContain("# Required: no");
+    expect(output).toContain('# Required when: AUTH_MODE is "oauth"');
+  });
+
+  it("lists per-environment defaults", () => {
+    const schema = {
+      PORT: e.number().default(3000).defaultFor({ test: 0, production: 80 }),
+    };
+
+    const output = generateExample(schema);
+
+    expect(output).toContain("# Required: no (default: 3000)");
+    expect(output).toContain("# Default by environment: test=0, production=80");
+  });
+
   it("includes descriptions", () => {
     const schema = {
       DATABASE_URL: e.url().description("PostgreSQL connection string"),
@@ -193,3 +233,923 @@ describe("generateExample", () => {
     expect(result.message).toContain("Use --force to overwrite");
   });
 });
+
+describe("generateExample with object groups", () => {
+  it("prints a section header per group with full variable names", () => {
+    const schema = {
+      PORT: e.number().default(3000),
+      db: e
+        .object(
+          {
+            HOST: e.string(),
+            replica: e.object({ HOST: e.string() }, { prefix: "REPLICA_" }),
+          },
+          { prefix: "DB_" }
+        )
+        .description("Database connection"),
+    };
+
+    const output = generateExample(schema);
+
+    expect(output).toContain("# db (DB_*)");
+    expect(output).toContain("# Database connection");
+    expect(output).toContain("DB_HOST=your_value_here");
+    expect(output).toContain("# replica (DB_REPLICA_*)");
+    expect(output).toContain("DB_REPLICA_HOST=your_value_here");
+  });
+});
+
+describe("generateExample with deprecations", () => {
+  it("notes deprecations and legacy names", () => {
+    const schema = {
+      db: e.object(
+        { URL: e.url().renamedFrom("URI", "CONNECTION") },
+        { prefix: "DB_" }
+      ),
+      LEGACY_MODE: e.boolean().optional().deprecated("Removed in v3"),
+    };
+
+    const output = generateExample(schema);
+
+    expect(output).toContain(
+      "# Formerly: DB_URI, DB_CONNECTION (still read, deprecated)"
+    );
+    expect(output).toContain("# Deprecated: Removed in v3");
+  });
+});
+
+describe("generateExample with discriminated schemas", () => {
+  it("documents the discriminator and each branch", () => {
+    const schema = {
+      storage: e.discriminate("STORAGE_DRIVER", {
+        s3: { S3_BUCKET: e.string() },
+        local: { STORAGE_PATH: e.path() },
+      }),
+    };
+
+    const output = generateExample(schema);
+
+    expect(output).toContain("# Options: s3 | local");
+    expect(output).toContain("STORAGE_DRIVER=s3");
+    expect(output).toContain("# When STORAGE_DRIVER=s3");
+    expect(output).toContain("S3_BUCKET=your_value_here");
+    expect(output).toContain("# When STORAGE_DRIVER=local");
+    expect(output).toContain("STORAGE_PATH=/path/to/file");
+  });
+});
+
+describe("formatEnvValue", () => {
+  it("formats values so they parse back to the same value", () => {
+    expect(formatEnvValue(e.number(), 3000)).toBe("3000");
+    expect(formatEnvValue(e.boolean(), false)).toBe("false");
+    expect(formatEnvValue(e.url(), new URL("https://example.com"))).toBe(
+      "https://example.com/"
+    );
+    expect(formatEnvValue(e.json(), { a: 1 })).toBe('{"a":1}');
+    expect(formatEnvValue(e.array(e.number()).separator(";"), [1, 2])).toBe(
+      "1;2"
+    );
+  });
+
+  it("formats arrays built by another copy of envproof", () => {
+    const array = e.array(e.number()).separator(";");
+    // Same definition, different class, as with a separately bundled entry
+    const foreign = {
+      _def: array._def,
+      getSeparator: () => array.getSeparator(),
+    } as unknown as AnySchema;
+
+    expect(formatEnvValue(foreign, [1, 2])).toBe("1;2");
+  });
+});
+
+describe("generateMarkdownDocs", () => {
+  const header =
+    "| Name | Type | Required | Default | Options | Secret | Description | Example |";
+
+  it("documents each variable as a table row", () => {
+    const docs = generateMarkdownDocs({
+      PORT: e.number().default(3000).description("HTTP port"),
+      NODE_ENV: e.enum(["development", "production"] as const),
+      API_KEY: e.string().secret().example("sk_live_123"),
+    });
+
+    expect(docs).toContain("## Environment Variables");
+    expect(docs).toContain(header);
+    expect(docs).toContain(
+      "| `PORT` | number | no | `3000` |  | no | HTTP port | `3.14` |"
+    );
+    expect(docs).toContain(
+      "| `NODE_ENV` | enum (development \\| production) | yes | - | `development`, `production` | no |  | `development` |"
+    );
+    expect(docs).toContain("| `API_KEY` | string | yes | - |  | yes |");
+    expect(docs).not.toContain("sk_live_123");
+  });
+
+  it("adds sections for object groups and discriminated branches", () => {
+    const docs = generateMarkdownDocs(
+      {
+        db: e
+          .object({ HOST: e.string() }, { prefix: "DB_" })
+          .description("Primary database"),
+        storage: e.discriminate("STORAGE_DRIVER", {
+          s3: { S3_BUCKET: e.string() },
+          local: { STORAGE_PATH: e.path() },
+        }),
+      },
+      { title: "API service", headingLevel: 3 }
+    );
+
+    expect(docs).toContain("### API service");
+    expect(docs).toContain("#### db (`DB_*`)\n\nPrimary database");
+    expect(docs).toContain("| `DB_HOST` |");
+    expect(docs).toContain("| `STORAGE_DRIVER` |");
+    expect(docs).toContain("#### When `STORAGE_DRIVER=s3`");
+    expect(docs).toContain("#### When `STORAGE_DRIVER=local`");
+  });
+
+  it("groups variables by prefix", () => {
+    const schema = {
+      PORT: e.number(),
+      DB_HOST: e.string(),
+      DB_PORT: e.number(),
+      REDIS_URL: e.url(),
+    };
+
+    const auto = generateMarkdownDocs(schema, { groupByPrefix: true });
+    expect(auto).toContain("### `DB_*`");
+    expect(auto).not.toContain("### `REDIS_*`");
+    expect(auto.indexOf("`PORT`")).toBeLessThan(auto.indexOf("### `DB_*`"));
+    expect(auto.indexOf("`REDIS_URL`")).toBeLessThan(
+      auto.indexOf("### `DB_*`")
+    );
+
+    const explicit = generateMarkdownDocs(schema, {
+      groupByPrefix: ["REDIS_"],
+    });
+    expect(explicit).toContain("### `REDIS_*`");
+    expect(explicit).not.toContain("### `DB_*`");
+  });
+});
+
+describe("updateMarkdownDocs", () => {
+  it("replaces content between markers", () => {
+    const readme = [
+      "# My service",
+      "<!-- envproof:start -->",
+      "stale",
+      "<!-- envproof:end -->",
+      "## License",
+    ].join("\n");
+
+    expect(updateMarkdownDocs(readme, "fresh\n")).toBe(
+      [
+        "# My service",
+        "<!-- envproof:start -->",
+        "fresh",
+        "<!-- envproof:end -->",
+        "## License",
+      ].join("\n")
+    );
+  });
+
+  it("returns null without markers", () => {
+    expect(updateMarkdownDocs("# My service", "docs")).toBeNull();
+    expect(
+      updateMarkdownDocs(
+        "<!-- envproof:start --><!-- envproof:end -->",
+        "docs",
+        "worker"
+      )
+    ).toBeNull();
+  });
+});
+
+describe("writeMarkdownDocs", () => {
+  it("creates, updates and appends docs", () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "envproof-docs-"));
+    const output = path.join(tempDir, "README.md");
+
+    try {
+      expect(writeMarkdownDocs({ PORT: e.number() }, { output }).success).toBe(
+        true
+      );
+      const created = fs.readFileSync(output, "utf-8");
+      expect(created).toMatch(/^<!-- envproof:start -->\n## Environment/);
+
+      fs.writeFileSync(output, `# Intro\n\n${created}\nFooter\n`);
+      writeMarkdownDocs({ HOST: e.string() }, { output });
+      const updated = fs.readFileSync(output, "utf-8");
+      expect(updated).toContain("# Intro");
+      expect(updated).toContain("`HOST`");
+      expect(updated).not.toContain("`PORT`");
+      expect(updated).toContain("Footer");
+
+      fs.writeFileSync(output, "# No markers\n");
+      const rejected = writeMarkdownDocs({ PORT: e.number() }, { output });
+      expect(rejected.success).toBe(false);
+      expect(rejected.message).toContain("<!-- envproof:start -->");
+
+      writeMarkdownDocs({ PORT: e.number() }, { output, force: true });
+      expect(fs.readFileSync(output, "utf-8")).toMatch(
+        /^# No markers\n\n<!-- envproof:start -->/
+      );
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("toJsonSchema", () => {
+  it("maps types, rules and metadata to keywords", () => {
+    const document = toJsonSchema(
+      {
+        PORT: e.number().port().default(3000).description("HTTP port"),
+        RATIO: e.number().min(0.5),
+        NODE_ENV: e.enum(["development", "production"] as const),
+        API_KEY: e.string().minLength(32).startsWith("sk_").secret(),
+        ADMIN_EMAIL: e.string().email().optional(),
+        REQUEST_ID: e
+          .string()
+          .uuid()
+          .pattern(/^[a-f0-9-]+$/),
+        API_URL: e.url().http(),
+        DEBUG: e.boolean().default(false),
+        ORIGINS: e.array(e.url()).minLength(1),
+        TIMEOUT: e.duration().min("1s"),
+        FEATURES: e.json().object(),
+      },
+      { title: "API service" }
+    );
+
+    expect(document.$schema).toBe(
+      "https://json-schema.org/draft/2020-12/schema"
+    );
+    expect(document.title).toBe("API service");
+    expect(document.required).toEqual([
+      "RATIO",
+      "NODE_ENV",
+      "API_KEY",
+      "REQUEST_ID",
+      "API_URL",
+      "ORIGINS",
+      "TIMEOUT",
+      "FEATURES",
+    ]);
+
+    const properties = document.properties ?? {};
+    expect(properties.PORT).toEqual({
+      type: "integer",
+      minimum: 1,
+      maximum: 65535,
+      default: 3000,
+      description: "HTTP port",
+    });
+    expect(properties.RATIO).toEqual({ type: "number", minimum: 0.5 });
+    expect(properties.NODE_ENV).toEqual({
+      type: "string",
+      enum: ["development", "production"],
+    });
+    expect(properties.API_KEY).toEqual({
+      type: "string",
+      minLength: 32,
+      pattern: "^sk_",
+      writeOnly: true,
+    });
+    expect(properties.ADMIN_EMAIL).toEqual({
+      type: "string",
+      format: "email",
+    });
+    expect(properties.REQUEST_ID).toEqual({
+      type: "string",
+      format: "uuid",
+      pattern: "^[a-f0-9-]+$",
+    });
+    expect(properties.API_URL).toEqual({
+      type: "string",
+      format: "uri",
+      pattern: "^(http|https):",
+    });
+    expect(properties.DEBUG).toEqual({ type: "boolean", default: false });
+    expect(properties.ORIGINS).toEqual({
+      type: "array",
+      items: { type: "string", format: "uri" },
+      minItems: 1,
+    });
+    expect(properties.TIMEOUT?.type).toEqual(["string", "number"]);
+    expect(properties.TIMEOUT).not.toHaveProperty("minimum");
+    expect(properties.FEATURES).toEqual({ type: "object" });
+  });
+
+  it("flattens groups and makes branch variables conditional", () => {
+    const document = toJsonSchema({
+      db: e.object({ HOST: e.string() }, { prefix: "DB_" }),
+      cache: e.object({ URL: e.url() }, { prefix: "CACHE_" }).optional(),
+      storage: e.discriminate("STORAGE_DRIVER", {
+        s3: { S3_BUCKET: e.string() },
+        local: { STORAGE_PATH: e.path().optional() },
+      }),
+      BIND: e.union([e.number().port(), e.enum(["auto"] as const)]),
+    });
+
+    expect(Object.keys(document.properties ?? {})).toEqual([
+      "DB_HOST",
+      "CACHE_URL",
+      "STORAGE_DRIVER",
+      "S3_BUCKET",
+      "STORAGE_PATH",
+      "BIND",
+    ]);
+    expect(document.required).toEqual(["DB_HOST", "STORAGE_DRIVER", "BIND"]);
+    expect(document.allOf).toEqual([
+      {
+        if: {
+          properties: { STORAGE_DRIVER: { const: "s3" } },
+          required: ["STORAGE_DRIVER"],
+        },
+        then: { required: ["S3_BUCKET"] },
+      },
+    ]);
+    expect(document.properties?.BIND).toEqual({
+      anyOf: [
+        { type: "integer", minimum: 1, maximum: 65535 },
+        { type: "string", enum: ["auto"] },
+      ],
+    });
+  });
+
+  it("leaves custom rules out", () => {
+    const document = toJsonSchema({
+      TOKEN: e.string().refine((value) => value !== "x", "Not x"),
+    });
+
+    expect(document.properties?.TOKEN).toEqual({ type: "string" });
+  });
+});
+
+describe("fromJsonSchema", () => {
+  it("round-trips schemas exported with toJsonSchema", () => {
+    const { schema, warnings } = fromJsonSchema(
+      toJsonSchema({
+        PORT: e.number().port().default(3000).description("HTTP port"),
+        NODE_ENV: e.enum(["development", "production"] as const),
+        API_KEY: e.string().minLength(32).secret(),
+        ADMIN_EMAIL: e.string().email().optional(),
+        API_URL: e.url().protocols(["https"]),
+        ORIGINS: e.array(e.string()).minLength(1),
+        TIMEOUT: e.duration().default(5000),
+      })
+    );
+
+    expect(warnings).toEqual([]);
+    expect(schema.PORT?._def.defaultValue).toBe(3000);
+    expect(schema.PORT?._def.metadata.description).toBe("HTTP port");
+    expect(schema.API_KEY?._def.metadata.isSecret).toBe(true);
+    expect(schema.ADMIN_EMAIL?._def.isOptional).toBe(true);
+    expect(schema.TIMEOUT?._def.type).toBe("duration");
+
+    const valid = validateEnv(schema, {
+      source: {
+        NODE_ENV: "production",
+        API_KEY: "k".repeat(32),
+        API_URL: "https://api.example.com",
+        ORIGINS: "a,b",
+        TIMEOUT: "30s",
+      },
+    });
+    expect(valid.success).toBe(true);
+
+    const invalid = validateEnv(schema, {
+      source: {
+        PORT: "70000",
+        NODE_ENV: "staging",
+        API_KEY: "short",
+        ADMIN_EMAIL: "nope",
+        API_URL: "http://api.example.com",
+        ORIGINS: "",
+      },
+    });
+    expect(invalid.success).toBe(false);
+    if (!invalid.success) {
+      expect(invalid.errors.map((error) => error.variable).sort()).toEqual([
+        "ADMIN_EMAIL",
+        "API_KEY",
+        "API_URL",
+        "NODE_ENV",
+        "ORIGINS",
+        "PORT",
+      ]);
+    }
+  });
+
+  it("resolves local references", () => {
+    const { schema, warnings } = fromJsonSchema({
+      type: "object",
+      $defs: { port: { type: "integer", minimum: 1, maximum: 65535 } },
+      properties: { PORT: { $ref: "#/$defs/port" } },
+      required: ["PORT"],
+    });
+
+    expect(warnings).toEqual([]);
+    expect(schema.PORT?.getTypeDescription()).toBe("integer, 1-65535");
+  });
+
+  it("stops at recursive references", () => {
+    const { schema, warnings } = fromJsonSchema({
+      type: "object",
+      $defs: {
+        node: { anyOf: [{ type: "string" }, { $ref: "#/$defs/node" }] },
+      },
+      properties: { TREE: { $ref: "#/$defs/node" } },
+      required: ["TREE"],
+    });
+
+    expect(schema.TREE?._def.type).toBe("union");
+    expect(warnings).toEqual([
+      {
+        path: "/properties/TREE/anyOf/1/$ref",
+        variable: "TREE",
+        message:
+          'Recursive "$ref" #/$defs/node is not supported; using e.json()',
+      },
+    ]);
+  });
+
+  it("drops defaults that do not fit the type", () => {
+    const document = {
+      type: "object",
+      properties: {
+        PORT: { type: "integer", default: "3000" },
+        DEBUG: { type: "boolean", default: "false" },
+        NAME: { type: "string", default: 1 },
+        WORKERS: { type: "integer", default: 4 },
+      },
+    };
+
+    const { schema, warnings } = fromJsonSchema(document);
+    const { code } = generateSchemaCode(document);
+
+    expect(schema.PORT?._def.defaultValue).toBeUndefined();
+    expect(schema.WORKERS?._def.defaultValue).toBe(4);
+    expect(code).toContain("  PORT: e.number().integer().optional(),\n");
+    expect(warnings.map((warning) => warning.message)).toEqual([
+      'Default "3000" was ignored',
+      'Default "false" was ignored',
+      "Default 1 was ignored",
+    ]);
+  });
+
+  it("skips patterns JavaScript cannot compile", () => {
+    const { schema, warnings } = fromJsonSchema({
+      type: "object",
+      properties: { REGION: { type: "string", pattern: "(?i)^eu-" } },
+      required: ["REGION"],
+    });
+
+    expect(schema.REGION?._def.rules).toEqual([]);
+    expect(warnings).toEqual([
+      {
+        path: "/properties/REGION/pattern",
+        variable: "REGION",
+        message:
+          'Pattern "(?i)^eu-" is not a valid JavaScript regular expression and was ignored',
+      },
+    ]);
+  });
+
+  it("warns about keywords without an envproof equivalent", () => {
+    const { schema, warnings } = fromJsonSchema({
+      type: "object",
+      properties: {
+        HOST: { type: "string", format: "hostname" },
+        RETRIES: { type: "integer", multipleOf: 2 },
+      },
+      additionalProperties: false,
+    });
+
+    expect(schema.HOST?._def.type).toBe("string");
+    expect(warnings).toEqual([
+      {
+        path: "/properties/HOST/format",
+        variable: "HOST",
+        message: 'Format "hostname" is not supported and was ignored',
+      },
+      {
+        path: "/properties/RETRIES/multipleOf",
+        variable: "RETRIES",
+        message: '"multipleOf" is not supported and was ignored',
+      },
+      {
+        path: "/additionalProperties",
+        message:
+          '"additionalProperties" was ignored; use the strict option to reject unknown variables',
+      },
+    ]);
+  });
+
+  it("rejects documents that do not describe variables", () => {
+    expect(() => fromJsonSchema({ type: "array" })).toThrow(
+      "JSON Schema must describe an object"
+    );
+  });
+});
+
+describe("generateSchemaCode", () => {
+  it("emits an env.config.ts module", () => {
+    const { code } = generateSchemaCode({
+      type: "object",
+      properties: {
+        PORT: { type: "integer", minimum: 1, maximum: 65535, default: 3000 },
+        LOG_LEVEL: { enum: ["debug", "info"], default: "info" },
+        DATABASE_URL: {
+          type: "string",
+          format: "uri",
+          pattern: "^(postgres|postgresql):",
+          description: "Primary database connection string",
+          writeOnly: true,
+        },
+        "app.name": { type: "string" },
+      },
+      required: ["DATABASE_URL"],
+    });
+
+    expect(code).toBe(
+      [
+        'import { e } from "envproof";',
+        "",
+        "export const schema = {",
+        "  PORT: e.number().port().default(3000),",
+        '  LOG_LEVEL: e.enum(["debug", "info"] as const).default("info"),',
+        "  DATABASE_URL: e",
+        "    .url()",
+        '    .protocols(["postgres", "postgresql"])',
+        "    .secret()",
+        '    .description("Primary database connection string"),',
+        '  "app.name": e.string().optional(),',
+        "};",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("keeps warnings as comments above the variable", () => {
+    const { code, warnings } = generateSchemaCode({
+      type: "object",
+      properties: { RETRIES: { type: "integer", multipleOf: 2 } },
+    });
+
+    expect(warnings).toHaveLength(1);
+    expect(code).toContain(
+      '  // envproof: "multipleOf" is not supported and was ignored\n  RETRIES: e.number().integer().optional(),'
+    );
+  });
+});
+
+describe("generateTypeDeclarations", () => {
+  it("augments NodeJS.ProcessEnv", () => {
+    const declarations = generateTypeDeclarations({
+      DATABASE_URL: e.url().description("Primary database"),
+      NODE_ENV: e.enum(["development", "production"] as const),
+      PORT: e.number().port().default(3000).description("HTTP port"),
+      LOG_LEVEL: e.enum(["debug", "info"] as const).optional(),
+      "app.name": e.string(),
+    });
+
+    expect(declarations).toBe(
+      [
+        "// Generated by envproof. Do not edit; run `envproof types`.",
+        "",
+        "declare global {",
+        "  namespace NodeJS {",
+        "    interface ProcessEnv {",
+        "      /** Primary database */",
+        "      DATABASE_URL: string;",
+        '      NODE_ENV: "development" | "production";',
+        "      /**",
+        "       * HTTP port",
+        '       * @default "3000"',
+        "       */",
+        "      PORT?: string | undefined;",
+        '      LOG_LEVEL?: "debug" | "info" | undefined;',
+        '      "app.name": string;',
+        "    }",
+        "  }",
+        "}",
+        "",
+        "export {};",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("marks optional group and branch members as optional", () => {
+    const declarations = generateTypeDeclarations({
+      DB: e.object({ HOST: e.string() }, { prefix: "DB_" }),
+      CACHE: e.object({ URL: e.url() }, { prefix: "CACHE_" }).optional(),
+      STORAGE: e.discriminate("STORAGE_DRIVER", {
+        s3: { S3_BUCKET: e.string() },
+        local: { STORAGE_PATH: e.string() },
+      }),
+    });
+
+    expect(declarations).toContain("      DB_HOST: string;");
+    expect(declarations).toContain("      CACHE_URL?: string | undefined;");
+    expect(declarations).toContain('      STORAGE_DRIVER: "s3" | "local";');
+    expect(declarations).toContain("      S3_BUCKET?: string | undefined;");
+    expect(declarations).toContain("      STORAGE_PATH?: string | undefined;");
+  });
+
+  it("keeps descriptions from closing the comment", () => {
+    expect(
+      generateTypeDeclarations({ GLOB: e.string().description("src/**/*.ts") })
+    ).toContain("      /** src/**\\/*.ts */");
+  });
+  it("marks deprecated variables with @deprecated", () => {
+    expect(
+      generateTypeDeclarations({
+        LEGACY_MODE: e.string().deprecated("Use MODE instead"),
+      })
+    ).toContain("      /** @deprecated Use MODE instead */");
+  });
+});
+
+describe("inferSchema", () => {
+  const values = {
+    DEBUG: "false",
+    WORKERS: "4",
+    PORT: "8080",
+    RATIO: "0.75",
+    DATABASE_URL: "postgres://app:hunter2@db:5432/app",
+    API_URL: "https://api.example.com",
+    TIMEOUT: "30s",
+    FEATURES: '{"beta":true}',
+    ORIGINS: "https://a.example.com,https://b.example.com",
+    HOSTS: "a,b,c",
+    TENANT_ID: "123e4567-e89b-12d3-a456-426614174000",
+    ADMIN_EMAIL: "admin@example.com",
+    STRIPE_SECRET: "sk_live_123",
+    API_KEY: "abc",
+    AUTH_TOKEN: "42",
+    APP_NAME: "shop",
+    EMPTY: "",
+  };
+
+  it("guesses a builder per value", () => {
+    const schema = inferSchema(values);
+    const types = Object.fromEntries(
+      Object.entries(schema).map(([name, field]) => [
+        name,
+        field.getTypeDescription(),
+      ])
+    );
+
+    expect(types).toMatchObject({
+      DEBUG: expect.stringContaining("boolean"),
+      WORKERS: "integer",
+      PORT: "integer, 1-65535",
+      RATIO: "number",
+      TIMEOUT: expect.stringContaining("duration"),
+      APP_NAME: "string",
+    });
+    expect(schema.DATABASE_URL?._def.type).toBe("url");
+    expect(schema.FEATURES?._def.type).toBe("json");
+    expect(schema.ORIGINS?._def.type).toBe("array");
+    expect(schema.EMPTY?._def.isOptional).toBe(true);
+    expect(schema.STRIPE_SECRET?._def.metadata.isSecret).toBe(true);
+    expect(schema.API_KEY?._def.metadata.isSecret).toBe(true);
+    expect(schema.AUTH_TOKEN?._def.metadata.isSecret).toBe(true);
+    expect(schema.APP_NAME?._def.metadata.isSecret).toBe(false);
+    expect(validateEnv(schema, { source: values }).success).toBe(true);
+  });
+
+  it("generates env.config.ts source", () => {
+    const code = inferSchemaCode(values, { examples: true });
+
+    expect(code).toContain('  PORT: e.number().port().example("8080"),\n');
+    expect(code).toContain(
+      '  DATABASE_URL: e.url().protocols(["postgres"]),\n'
+    );
+    expect(code).toContain(
+      '  ORIGINS: e\n    .array(e.url())\n    .example("https://a.example.com,https://b.example.com"),\n'
+    );
+    expect(code).toContain('  HOSTS: e.array(e.string()).example("a,b,c"),\n');
+    expect(code).toContain("  TENANT_ID: e.string().uuid().example(");
+    expect(code).toContain(
+      '  ADMIN_EMAIL: e.string().email().example("admin@example.com"),\n'
+    );
+    expect(code).toContain("  STRIPE_SECRET: e.string().secret(),\n");
+    expect(code).toContain("  AUTH_TOKEN: e.string().secret(),\n");
+    expect(code).toContain(
+      "  // envproof: empty value; check the type\n  EMPTY: e.string().optional(),\n"
+    );
+    expect(code).not.toContain("hunter2");
+    expect(code).not.toContain("sk_live_123");
+  });
+
+  it("does not copy values unless asked to", () => {
+    const code = inferSchemaCode(values);
+
+    expect(code).toContain("  PORT: e.number().port(),\n");
+    expect(code).not.toContain(".example(");
+    expect(inferSchema(values).APP_NAME?._def.metadata.example).toBeUndefined();
+  });
+
+  it("never writes password-like values", () => {
+    const passwords = {
+      DB_PASSWORD: "hunter2prod",
+      SMTP_PASS: "hunter2smtp",
+      MYSQL_PWD: "hunter2mysql",
+      GCP_CREDENTIALS: "hunter2gcp",
+      SSH_PRIVATE_KEY: "hunter2ssh",
+    };
+
+    const code = inferSchemaCode(passwords, { examples: true });
+    const schema = inferSchema(passwords, { examples: true });
+
+    expect(code).not.toContain("hunter2");
+    expect(generateExample(schema)).not.toContain("hunter2");
+    for (const field of Object.values(schema)) {
+      expect(field._def.metadata.isSecret).toBe(true);
+    }
+  });
+});
+
+describe("generateKubernetesManifests", () => {
+  const schema = {
+    NODE_ENV: e.enum(["development", "production"] as const),
+    PORT: e.number().port().default(3000),
+    LOG_FILE: e.path().optional(),
+    API_KEY: e.string().secret(),
+    SENTRY_DSN: e.url().secret().optional(),
+  };
+
+  it("splits variables into a ConfigMap and a Secret", () => {
+    const { manifests, envFrom } = generateKubernetesManifests(
+      schema,
+      { NODE_ENV: "production", API_KEY: "s3cr3t" },
+      { name: "api-env", namespace: "prod" }
+    );
+
+    expect(manifests).toBe(
+      [
+        "apiVersion: v1",
+        "kind: ConfigMap",
+        "metadata:",
+        "  name: api-env",
+        "  namespace: prod",
+        "data:",
+        '  NODE_ENV: "production"',
+        '  PORT: "3000"',
+        "---",
+        "apiVersion: v1",
+        "kind: Secret",
+        "metadata:",
+        "  name: api-env-secret",
+        "  namespace: prod",
+        "type: Opaque",
+        "data:",
+        '  API_KEY: "czNjcjN0"',
+        "",
+      ].join("\n")
+    );
+    expect(envFrom).toBe(
+      [
+        "envFrom:",
+        "  - configMapRef:",
+        "      name: api-env",
+        "  - secretRef:",
+        "      name: api-env-secret",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("falls back to examples but never invents secrets", () => {
+    const { manifests } = generateKubernetesManifests(schema);
+
+    expect(manifests).toContain('  NODE_ENV: "development"');
+    expect(manifests).not.toContain("LOG_FILE");
+    expect(manifests).toContain('  API_KEY: "" # set before applying');
+    expect(manifests).not.toContain("SENTRY_DSN");
+  });
+
+  it("omits the Secret when the schema has no secrets", () => {
+    const { manifests, envFrom } = generateKubernetesManifests(
+      { PORT: e.number().default(3000) },
+      {},
+      { secretName: "unused" }
+    );
+
+    expect(manifests).not.toContain("kind: Secret");
+    expect(envFrom).not.toContain("secretRef");
+  });
+});
+
+describe("generateComposeEnvironment", () => {
+  it("interpolates required and defaulted variables", () => {
+    const yaml = generateComposeEnvironment(
+      {
+        DATABASE_URL: e.url().description("Primary database"),
+        PORT: e.number().port().default(3000),
+        LOG_FILE: e.path().optional(),
+        GREETING: e.string().default("costs $5"),
+        API_KEY: e.string().secret(),
+      },
+      { service: "api" }
+    );
+
+    expect(yaml).toBe(
+      [
+        "services:",
+        "  api:",
+        "    environment:",
+        "      # Primary database",
+        '      DATABASE_URL: "${DATABASE_URL:?DATABASE_URL is required}"',
+        "",
+        '      PORT: "${PORT:-3000}"',
+        "",
+        '      LOG_FILE: "${LOG_FILE:-}"',
+        "",
+        '      GREETING: "${GREETING:-costs $$5}"',
+        "",
+        "      API_KEY_FILE: /run/secrets/api_key",
+        "    secrets:",
+        "      - api_key",
+        "",
+        "secrets:",
+        "  api_key:",
+        "    file: ./secrets/api_key",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("keeps section headers for object groups", () => {
+    const yaml = generateComposeEnvironment({
+      DB: e.object({ HOST: e.string() }, { prefix: "DB_" }),
+    });
+
+    expect(yaml).toContain("      # DB (DB_*)\n");
+    expect(yaml).toContain('      DB_HOST: "${DB_HOST:?DB_HOST is required}"');
+  });
+
+  it("never requires branch or optional group members", () => {
+    const yaml = generateComposeEnvironment({
+      STORAGE: e.discriminate("STORAGE_DRIVER", {
+        s3: { BUCKET: e.string(), REGION: e.string() },
+        gcs: { REGION: e.string() },
+        local: { STORAGE_PATH: e.string() },
+      }),
+      CACHE: e.object({ URL: e.url() }, { prefix: "CACHE_" }).optional(),
+    });
+
+    expect(yaml).toContain(
+      '      STORAGE_DRIVER: "${STORAGE_DRIVER:?STORAGE_DRIVER is required}"'
+    );
+    expect(yaml).toContain('      BUCKET: "${BUCKET:-}"');
+    expect(yaml).toContain('      STORAGE_PATH: "${STORAGE_PATH:-}"');
+    expect(yaml).toContain('      CACHE_URL: "${CACHE_URL:-}"');
+    expect(yaml.match(/^\s*REGION:/gm)).toHaveLength(1);
+    expect(yaml).not.toContain(":?BUCKET");
+  });
+
+  it("leaves out defaults that would end the interpolation", () => {
+    const yaml = generateComposeEnvironment({
+      FEATURES: e.json().default({ beta: true }),
+      TAGS: e.array(e.string()).default(["a", "b"]),
+    });
+
+    expect(yaml).toContain(
+      '      # Default left to envproof: Compose defaults cannot contain "}"\n' +
+        '      FEATURES: "${FEATURES:-}"\n'
+    );
+    expect(yaml).toContain('      TAGS: "${TAGS:-a,b}"');
+  });
+});
+
+describe("generateDockerfileEnv", () => {
+  it("emits ARG and ENV lines for defaults only", () => {
+    const dockerfile = generateDockerfileEnv({
+      DATABASE_URL: e.url(),
+      PORT: e.number().port().default(3000).description("HTTP port"),
+      GREETING: e.string().default("hello world"),
+      API_KEY: e.string().secret().default("dev-key"),
+      CACHE: e.object(
+        { TTL: e.duration().default(60000) },
+        { prefix: "CACHE_" }
+      ),
+      QUEUE: e.object({ URL: e.url() }, { prefix: "QUEUE_" }),
+    });
+
+    expect(dockerfile).toContain(
+      "# HTTP port\nARG PORT=3000\nENV PORT=${PORT}\n"
+    );
+    expect(dockerfile).toContain(
+      'ARG GREETING="hello world"\nENV GREETING=${GREETING}\n'
+    );
+    expect(dockerfile).toContain("ARG CACHE_TTL=60000\n");
+    expect(dockerfile).not.toContain("DATABASE_URL");
+    expect(dockerfile).not.toContain("API_KEY");
+    expect(dockerfile).not.toContain("QUEUE");
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * EnvProof - Environment Profile Tests
+ * Test profile matching, rules and dotenv aliases
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { e, validateEnv, formatPretty, formatJson } from "../src/index.js";
+import type { EnvProfile } from "../src/index.js";
+import { findProfile, matchesEnvironment } from "../src/profiles.js";
+
+const profiles: Record<string, EnvProfile> = {
+  production: {
+    aliases: ["prod-*"],
+    required: ["SENTRY_DSN"],
+    forbidden: ["DEBUG_TOKEN"],
+    strict: true,
+  },
+  "preview-*": { optional: ["DATABASE_URL"] },
+  ci: { defaults: { LOG_LEVEL: "warn" } },
+};
+
+const schema = {
+  DATABASE_URL: e.url(),
+  SENTRY_DSN: e.string().optional(),
+  LOG_LEVEL: e.enum(["debug", "info", "warn"] as const).default("info"),
+};
+
+describe("matchesEnvironment", () => {
+  it("matches exact names", () => {
+    expect(matchesEnvironment("staging", "staging")).toBe(true);
+    expect(matchesEnvironment("staging", "staging-2")).toBe(false);
+  });
+
+  it("matches globs", () => {
+    expect(matchesEnvironment("preview-*", "preview-123")).toBe(true);
+    expect(matchesEnvironment("prod-??", "prod-eu")).toBe(true);
+    expect(matchesEnvironment("prod-??", "prod-east")).toBe(false);
+    expect(matchesEnvironment("v1.*", "v1x2")).toBe(false);
+  });
+});
+
+describe("findProfile", () => {
+  it("selects profiles by name, alias or glob", () => {
+    expect(findProfile({ profiles, environment: "production" })?.name).toBe(
+      "production"
+    );
+    expect(findProfile({ profiles, environment: "prod-eu" })?.name).toBe(
+      "production"
+    );
+    expect(findProfile({ profiles, environment: "preview-42" })?.name).toBe(
+      "preview-*"
+    );
+    expect(findProfile({ profiles, environment: "staging" })).toBeUndefined();
+    expect(findProfile({ profiles })).toBeUndefined();
+  });
+
+  it("prefers exact names over globs", () => {
+    const result = findProfile({
+      profiles: { "preview-*": {}, "preview-main": {} },
+      environment: "preview-main",
+    });
+
+    expect(result?.name).toBe("preview-main");
+  });
+});
+
+describe("Profile rules", () => {
+  const url = "postgres://localhost/app";
+
+  it("requires variables and names the profile", () => {
+    const result = validateEnv(schema, {
+      source: { DATABASE_URL: url },
+      environment: "prod-us",
+      profiles,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        variable: "SENTRY_DSN",
+        reason: "missing",
+        message: 'Required when profile "production" is active',
+        profile: "production",
+      }),
+    ]);
+  });
+
+  it("makes variables optional", () => {
+    const result = validateEnv(schema, {
+      source: {},
+      environment: "preview-42",
+      profiles,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.DATABASE_URL).toBeUndefined();
+  });
+
+  it("overrides defaults", () => {
+    const result = validateEnv(schema, {
+      source: { DATABASE_URL: url },
+      environment: "ci",
+      profiles,
+    });
+
+    expect(result.data?.LOG_LEVEL).toBe("warn");
+  });
+
+  it("reports forbidden variables", () => {
+    const result = validateEnv(schema, {
+      source: { DATABASE_URL: url, SENTRY_DSN: "dsn", DEBUG_TOKEN: "x" },
+      environment: "production",
+      profiles,
+    });
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        variable: "DEBUG_TOKEN",
+        reason: "forbidden",
+        message: 'Must not be set in profile "production"',
+        profile: "production",
+      }),
+    ]);
+  });
+
+  it("applies the profile's strictness", () => {
+    const source = { DATABASE_URL: url, SENTRY_DSN: "dsn", EXTRA: "1" };
+
+    const strict = validateEnv(schema, {
+      source,
+      environment: "production",
+      profiles,
+    });
+    expect(strict.errors?.[0]?.reason).toBe("unknown");
+
+    const relaxed = validateEnv(schema, {
+      source,
+      environment: "production",
+      strict: true,
+      profiles: { production: { strict: false } },
+    });
+    expect(relaxed.success).toBe(true);
+  });
+
+  it("reports the active profile in reporters", () => {
+    const result = validateEnv(schema, {
+      source: { DATABASE_URL: url },
+      environment: "prod-eu",
+      profiles,
+    });
+    const errors = result.errors ?? [];
+
+    expect(formatPretty(errors)).toContain(
+      '1 error found in profile "production"'
+    );
+    expect(JSON.parse(formatJson(errors)).errors[0].profile).toBe("production");
+  });
+
+  it("applies rules to grouped and branch variables", () => {
+    const nested = {
+      db: e.object(
+        { HOST: e.string(), PORT: e.number().default(5432) },
+        { prefix: "DB_" }
+      ),
+      storage: e.discriminate("STORAGE_DRIVER", {
+        s3: { S3_BUCKET: e.string().optional() },
+        local: { STORAGE_PATH: e.string() },
+      }),
+    };
+    const result = validateEnv(nested, {
+      source: { STORAGE_DRIVER: "s3" },
+      environment: "ci",
+      profiles: {
+        ci: {
+          required: ["S3_BUCKET"],
+          optional: ["DB_HOST"],
+          defaults: { DB_PORT: 6543 },
+        },
+      },
+    });
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        variable: "S3_BUCKET",
+        reason: "missing",
+        profile: "ci",
+      }),
+    ]);
+
+    const passing = validateEnv(nested, {
+      source: { STORAGE_DRIVER: "local", STORAGE_PATH: "/data" },
+      environment: "ci",
+      profiles: {
+        ci: { optional: ["DB_HOST"], defaults: { DB_PORT: 6543 } },
+      },
+    });
+    expect(passing.data?.db).toEqual({ HOST: undefined, PORT: 6543 });
+  });
+
+  it("leaves the schema alone without a matching profile", () => {
+    const result = validateEnv(schema, {
+      source: { DATABASE_URL: url },
+      environment: "staging",
+      profiles,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.LOG_LEVEL).toBe("info");
+  });
+});
+
+describe("Profile dotenv aliases", () => {
+  let tempDir: string;
+  let originalCwd: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "envproof-profiles-"));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+  });
+
+  afterEach(() => {
+    process.chdir(originalCwd);
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("loads the profile's files before the environment's own", () => {
+    fs.writeFileSync(".env.production", "REGION=global\nREPLICAS=3\n");
+    fs.writeFileSync(".env.prod-eu", "REGION=eu\n");
+
+    const result = validateEnv(
+      { REGION: e.string(), REPLICAS: e.number() },
+      {
+        dotenv: true,
+        source: {},
+        environment: "prod-eu",
+        profiles: { production: { aliases: ["prod-*"] } },
+      }
+    );
+
+    expect(result.data).toEqual({ REGION: "eu", REPLICAS: 3 });
+  });
+
+  it("does not load files named after globs", () => {
+    fs.writeFileSync(".env.preview-42", "REGION=preview\n");
+
+    const result = validateEnv(
+      { REGION: e.string() },
+      {
+        dotenv: true,
+        source: {},
+        environment: "preview-42",
+        profiles: { "preview-*": {} },
+      }
+    );
+
+    expect(result.data?.REGION).toBe("preview");
+  });
+});
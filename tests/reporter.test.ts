@@ -8,7 +8,11 @@ import {
   formatPretty,
   formatJson,
   formatMinimal,
+  formatGithub,
+  formatJunit,
+  formatSarif,
 } from "../src/reporters/index.js";
+import { e } from "../src/index.js";
 import type { ValidationError } from "../src/types.js";
 
 const sampleErrors: ValidationError[] = [
@@ -39,6 +43,39 @@ const sampleErrors: ValidationError[] = [
   },
 ];
 
+const suggestedErrors: ValidationError[] = [
+  {
+    variable: "DATABASE_URL",
+    reason: "missing",
+    message: "Required variable is not set, but DATABSE_URL is",
+    expected: "URL",
+    isSecret: false,
+    suggestion: "DATABSE_URL",
+  },
+  {
+    variable: "NODE_ENV",
+    reason: "invalid_type",
+    message:
+      'Invalid value "prodution". Must be one of: development, production',
+    expected: "enum (development | production)",
+    received: "prodution",
+    isSecret: false,
+    suggestion: "production",
+  },
+];
+
+const warnings: ValidationError[] = [
+  {
+    variable: "API_KEY",
+    reason: "weak_secret",
+    message: "Secret is shorter than 12 characters",
+    expected: "string",
+    received: "[REDACTED]",
+    isSecret: true,
+    severity: "warning",
+  },
+];
+
 describe("formatPretty", () => {
   it("formats errors for terminal", () => {
     const output = formatPretty(sampleErrors);
@@ -91,6 +128,30 @@ describe("formatPretty", () => {
     expect(output).toContain("UNKNOWN VARIABLES");
     expect(output).toContain("SCHEMA RULES");
   });
+
+  it("lists warnings after errors", () => {
+    const output = formatPretty([sampleErrors[0]!, ...warnings]);
+
+    expect(output).toContain("Environment Validation Failed");
+    expect(output).toContain("1 error, 1 warning found");
+    expect(output).toContain("WARNINGS");
+    expect(output).toContain("Weak secret");
+  });
+
+  it("uses a warnings header when nothing failed", () => {
+    const output = formatPretty(warnings);
+
+    expect(output).toContain("Environment Validation Warnings");
+    expect(output).toContain("1 warning found");
+    expect(output).not.toContain("MISSING VARIABLES");
+  });
+
+  it("shows suggestions as hints", () => {
+    const output = formatPretty(suggestedErrors);
+
+    expect(output).toContain("Found DATABSE_URL; did you mean DATABASE_URL?");
+    expect(output).toContain('Did you mean "production"?');
+  });
 });
 
 describe("formatJson", () => {
@@ -132,9 +193,41 @@ describe("formatJson", () => {
     );
     expect(portError.received).toBe("abc");
   });
+
+  it("counts warnings separately", () => {
+    const parsed = JSON.parse(formatJson([...sampleErrors, ...warnings]));
+
+    expect(parsed.errorCount).toBe(3);
+    expect(parsed.warningCount).toBe(1);
+    expect(parsed.errors[3].severity).toBe("warning");
+    expect(parsed.errors[0].severity).toBeUndefined();
+    expect(JSON.parse(formatJson(warnings)).success).toBe(true);
+  });
+
+  it("includes suggestion when present", () => {
+    const parsed = JSON.parse(formatJson(suggestedErrors));
+
+    expect(parsed.errors[0].suggestion).toBe("DATABSE_URL");
+    expect(parsed.errors[1].suggestion).toBe("production");
+  });
 });
 
 describe("formatMinimal", () => {
+  it("lists warnings after errors", () => {
+    expect(formatMinimal([sampleErrors[2]!, ...warnings])).toBe(
+      "EnvProof: 1 invalid environment variable: PORT; 1 warning: API_KEY"
+    );
+    expect(formatMinimal(warnings)).toBe("EnvProof: 1 warning: API_KEY");
+  });
+
+  it("appends suggestions to variable names", () => {
+    const output = formatMinimal(suggestedErrors);
+
+    expect(output).toContain(
+      'DATABASE_URL (found DATABSE_URL), NODE_ENV (did you mean "production"?)'
+    );
+  });
+
   it("outputs single line", () => {
     const output = formatMinimal(sampleErrors);
 
@@ -158,3 +251,122 @@ describe("formatMinimal", () => {
     expect(output).not.toContain("variables"); // Should be singular
   });
 });
+
+const locatedError: ValidationError = {
+  variable: "LOG_LEVEL",
+  reason: "invalid_value",
+  message: 'Must be one of: debug, info (got "verbose")',
+  expected: "debug | info",
+  received: "verbose",
+  isSecret: false,
+  location: { line: 4, file: ".env.production" },
+};
+
+describe("formatGithub", () => {
+  it("emits one ::error command per error", () => {
+    const output = formatGithub(sampleErrors);
+
+    expect(output.split("\n")).toHaveLength(3);
+    expect(output).toContain(
+      "::error title=envproof%3A DATABASE_URL::Required variable is not set (expected URL)"
+    );
+  });
+
+  it("annotates the .env line when known", () => {
+    expect(formatGithub([locatedError])).toBe(
+      '::error file=.env.production,line=4,title=envproof%3A LOG_LEVEL::Must be one of: debug, info (got "verbose") (expected debug | info)'
+    );
+  });
+
+  it("escapes newlines in messages", () => {
+    const output = formatGithub([
+      {
+        ...locatedError,
+        location: undefined,
+        message: "a\nb",
+      } as ValidationError,
+    ]);
+
+    expect(output).toContain("::a%0Ab");
+  });
+
+  it("emits ::warning for warnings", () => {
+    expect(formatGithub(warnings)).toMatch(
+      /^::warning title=envproof%3A API_KEY::/
+    );
+  });
+});
+
+describe("formatJunit", () => {
+  it("reports one testcase per schema variable", () => {
+    const output = formatJunit(sampleErrors.slice(2), {
+      PORT: e.number(),
+      HOST: e.string(),
+    });
+
+    expect(output).toContain(
+      '<testsuites name="envproof" tests="2" failures="1" errors="0">'
+    );
+    expect(output).toContain('<testcase classname="envproof" name="HOST"/>');
+    expect(output).toContain(
+      '<failure type="invalid_type" message="Cannot convert &quot;abc&quot; to number">Expected: number (integer, 1-65535)\nReceived: abc</failure>'
+    );
+  });
+
+  it("lists only failing variables without a schema", () => {
+    const output = formatJunit(sampleErrors);
+
+    expect(output).toContain('tests="3" failures="3"');
+    expect(output).not.toContain("Received: your_api_key_here");
+  });
+
+  it("leaves warnings out", () => {
+    const output = formatJunit([...sampleErrors.slice(2), ...warnings]);
+
+    expect(output).toContain('tests="1" failures="1"');
+    expect(output).not.toContain("API_KEY");
+  });
+});
+
+describe("formatSarif", () => {
+  it("outputs a SARIF 2.1.0 log", () => {
+    const log = JSON.parse(formatSarif([...sampleErrors, locatedError]));
+    const run = log.runs[0];
+
+    expect(log.version).toBe("2.1.0");
+    expect(run.tool.driver.name).toBe("envproof");
+    expect(
+      run.tool.driver.rules.map((rule: { id: string }) => rule.id)
+    ).toEqual(["missing", "invalid_type", "invalid_value"]);
+    expect(run.results).toHaveLength(4);
+    expect(run.results[0].locations).toBeUndefined();
+  });
+
+  it("reports warnings at warning level", () => {
+    const log = JSON.parse(formatSarif(warnings));
+
+    expect(log.runs[0].results[0].level).toBe("warning");
+    expect(log.runs[0].tool.driver.rules[0].id).toBe("weak_secret");
+  });
+
+  it("points results at the .env line", () => {
+    const log = JSON.parse(formatSarif([locatedError]));
+
+    expect(log.runs[0].results[0]).toEqual({
+      ruleId: "invalid_value",
+      ruleIndex: 0,
+      level: "error",
+      message: {
+        text: 'LOG_LEVEL: Must be one of: debug, info (got "verbose") (expected debug | info)',
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: ".env.production" },
+            region: { startLine: 4 },
+          },
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * EnvProof - Secret Resolver Tests
+ * Test async secret reference resolution
+ */
+
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import {
+  e,
+  createEnvAsync,
+  fileResolver,
+  EnvValidationError,
+} from "../src/index.js";
+import type { SecretResolver } from "../src/index.js";
+import { parseSecretReference } from "../src/resolvers.js";
+
+describe("parseSecretReference", () => {
+  it("parses scheme and path", () => {
+    expect(parseSecretReference("KEY", "secret://payments/stripe_key")).toEqual(
+      {
+        uri: "secret://payments/stripe_key",
+        scheme: "secret",
+        path: "payments/stripe_key",
+        variable: "KEY",
+      }
+    );
+  });
+
+  it("returns null for plain values", () => {
+    expect(parseSecretReference("KEY", "sk_live_123")).toBeNull();
+  });
+});
+
+describe("createEnvAsync", () => {
+  let tempDir: string;
+  let secretsJson: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "envproof-resolvers-"));
+    secretsJson = path.join(tempDir, "secrets.json");
+    fs.writeFileSync(
+      secretsJson,
+      JSON.stringify({ payments: { stripe_key: "sk_live_123", retries: 3 } })
+    );
+    fs.mkdirSync(path.join(tempDir, "files"));
+    fs.writeFileSync(path.join(tempDir, "files", "db_pw"), "hunter2\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("resolves references with the JSON-backed file resolver", async () => {
+    const env = await createEnvAsync(
+      {
+        STRIPE_KEY: e.string().startsWith("sk_"),
+        RETRIES: e.number(),
+        PORT: e.number().default(3000),
+      },
+      {
+        source: {
+          STRIPE_KEY: "secret://payments/stripe_key",
+          RETRIES: "secret://payments/retries",
+        },
+        resolvers: { secret: fileResolver(secretsJson) },
+      }
+    );
+
+    expect(env.STRIPE_KEY).toBe("sk_live_123");
+    expect(env.RETRIES).toBe(3);
+    expect(env.PORT).toBe(3000);
+  });
+
+  it("resolves references with the directory-backed file resolver", async () => {
+    const env = await createEnvAsync(
+      { DB_PASSWORD: e.string() },
+      {
+        source: { DB_PASSWORD: "file://db_pw" },
+        resolvers: { file: fileResolver(path.join(tempDir, "files")) },
+      }
+    );
+
+    expect(env.DB_PASSWORD).toBe("hunter2");
+  });
+
+  it("refuses to read outside the resolver directory", async () => {
+    const result = await createEnvAsync(
+      { DB_PASSWORD: e.string() },
+      {
+        source: { DB_PASSWORD: "file://../secrets.json" },
+        resolvers: { file: fileResolver(path.join(tempDir, "files")) },
+        onError: "return",
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]?.reason).toBe("resolver_error");
+  });
+
+  it("leaves values with unregistered schemes untouched", async () => {
+    const env = await createEnvAsync(
+      { API_URL: e.url() },
+      {
+        source: { API_URL: "https://api.example.com" },
+        resolvers: { secret: fileResolver(secretsJson) },
+      }
+    );
+
+    expect(env.API_URL.hostname).toBe("api.example.com");
+  });
+
+  it("surfaces resolver failures as validation errors", async () => {
+    const result = await createEnvAsync(
+      { STRIPE_KEY: e.string(), PORT: e.number() },
+      {
+        source: { STRIPE_KEY: "secret://payments/missing", PORT: "abc" },
+        resolvers: { secret: fileResolver(secretsJson) },
+        onError: "return",
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]?.variable).toBe("STRIPE_KEY");
+    expect(result.errors[0]?.reason).toBe("resolver_error");
+    expect(result.errors[0]?.message).toContain("payments/missing");
+    expect(result.errors[1]?.variable).toBe("PORT");
+  });
+
+  it("masks resolved values as secrets in errors", async () => {
+    const result = await createEnvAsync(
+      { STRIPE_KEY: e.string().startsWith("pk_") },
+      {
+        source: { STRIPE_KEY: "secret://payments/stripe_key" },
+        resolvers: { secret: fileResolver(secretsJson) },
+        onError: "return",
+      }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors[0]?.isSecret).toBe(true);
+    expect(result.errors[0]?.received).toBe("[REDACTED]");
+  });
+
+  it("masks resolved values as secrets in warnings", async () => {
+    const onWarning = vi.fn();
+    const result = await createEnvAsync(
+      { STRIPE_KEY: e.string().maxLength(11) },
+      {
+        source: { STRIPE_KEY: "secret://payments/stripe_key" },
+        resolvers: { secret: fileResolver(secretsJson) },
+        onError: "return",
+        onWarning,
+      }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.warnings.map((warning) => warning.reason)).toEqual([
+      "weak_secret",
+      "near_limit",
+    ]);
+    expect(onWarning).toHaveBeenCalledWith(result.warnings);
+    expect(JSON.stringify(result.warnings)).not.toContain("sk_live_123");
+  });
+
+  it("supports custom resolvers and throws by default", async () => {
+    const vault: SecretResolver = {
+      resolve: async (reference) => {
+        if (reference.path === "denied") {
+          throw new Error("permission denied");
+        }
+        return `value-of-${reference.path}`;
+      },
+    };
+
+    const env = await createEnvAsync(
+      { TOKEN: e.string() },
+      { source: { TOKEN: "vault://token" }, resolvers: { vault } }
+    );
+    expect(env.TOKEN).toBe("value-of-token");
+
+    await expect(
+      createEnvAsync(
+        { TOKEN: e.string() },
+        { source: { TOKEN: "vault://denied" }, resolvers: { vault } }
+      )
+    ).rejects.toBeInstanceOf(EnvValidationError);
+  });
+});
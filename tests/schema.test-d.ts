@@ -0,0 +1,95 @@
+/**
+ * EnvProof - Schema Type Tests
+ * Test the types inferred through optional() and default()
+ */
+
+import { describe, expectTypeOf, it } from "vitest";
+import { e } from "../src/index.js";
+import type {
+  ArraySchema,
+  BooleanSchema,
+  DurationSchema,
+  EnumSchema,
+  InferEnv,
+  JsonSchema,
+  NumberSchema,
+  PathSchema,
+  StringSchema,
+  UrlSchema,
+} from "../src/index.js";
+
+describe("Modifier chaining types", () => {
+  it("keeps the schema class through optional()", () => {
+    expectTypeOf(e.string().optional()).toEqualTypeOf<StringSchema<true>>();
+    expectTypeOf(e.number().optional()).toEqualTypeOf<NumberSchema<true>>();
+    expectTypeOf(e.boolean().optional()).toEqualTypeOf<BooleanSchema<true>>();
+    expectTypeOf(e.url().optional()).toEqualTypeOf<UrlSchema<true>>();
+    expectTypeOf(e.path().optional()).toEqualTypeOf<PathSchema<true>>();
+    expectTypeOf(e.duration().optional()).toEqualTypeOf<DurationSchema<true>>();
+    expectTypeOf(e.enum(["a", "b"] as const).optional()).toEqualTypeOf<
+      EnumSchema<readonly ["a", "b"], true>
+    >();
+    expectTypeOf(e.json<{ a: number }>().optional()).toEqualTypeOf<
+      JsonSchema<{ a: number }, true>
+    >();
+    expectTypeOf(e.array(e.number()).optional()).toEqualTypeOf<
+      ArraySchema<number, true>
+    >();
+  });
+
+  it("keeps the schema class through default()", () => {
+    expectTypeOf(e.string().optional().default("x")).toEqualTypeOf<
+      StringSchema<false>
+    >();
+    expectTypeOf(e.number().default(1)).toEqualTypeOf<NumberSchema<false>>();
+    expectTypeOf(e.boolean().default(true)).toEqualTypeOf<
+      BooleanSchema<false>
+    >();
+    expectTypeOf(e.url().default(new URL("https://a.example"))).toEqualTypeOf<
+      UrlSchema<false>
+    >();
+    expectTypeOf(e.path().default("/tmp")).toEqualTypeOf<PathSchema<false>>();
+    expectTypeOf(e.duration().optional().default("1s")).toEqualTypeOf<
+      DurationSchema<false>
+    >();
+    expectTypeOf(e.enum(["a", "b"] as const).default("a")).toEqualTypeOf<
+      EnumSchema<readonly ["a", "b"], false>
+    >();
+    expectTypeOf(e.json<{ a: number }>().default({ a: 1 })).toEqualTypeOf<
+      JsonSchema<{ a: number }, false>
+    >();
+    expectTypeOf(e.array(e.string()).default([])).toEqualTypeOf<
+      ArraySchema<string, false>
+    >();
+  });
+
+  it("keeps builder methods after the modifiers", () => {
+    expectTypeOf(e.string().optional()).toHaveProperty("email");
+    expectTypeOf(e.number().default(3000)).toHaveProperty("port");
+    expectTypeOf(e.duration().optional()).toHaveProperty("min");
+    expectTypeOf(e.array(e.string()).optional()).toHaveProperty("nonEmpty");
+  });
+
+  it("infers undefined only for optional variables", () => {
+    const schema = {
+      HOST: e.string().optional().email(),
+      PORT: e.number().default(3000).port(),
+      DEBUG: e.boolean().optional(),
+      LEVEL: e
+        .enum(["debug", "info"] as const)
+        .optional()
+        .default("info"),
+      TIMEOUT: e.duration().optional().min("1s"),
+      TAGS: e.array(e.string()).optional().nonEmpty(),
+    };
+
+    expectTypeOf<InferEnv<typeof schema>>().toEqualTypeOf<{
+      readonly HOST: string | undefined;
+      readonly PORT: number;
+      readonly DEBUG: boolean | undefined;
+      readonly LEVEL: "debug" | "info";
+      readonly TIMEOUT: number | undefined;
+      readonly TAGS: string[] | undefined;
+    }>();
+  });
+});
@@ -344,3 +344,49 @@ describe("JsonSchema", () => {
     expect(rule?.validate({ port: 0 })).toBe(false);
   });
 });
+
+describe("Modifier chaining", () => {
+  it("keeps number builders after default()", () => {
+    const schema = e.number().default(3000).port();
+
+    expect(schema).toBeInstanceOf(e.NumberSchema);
+    expect(schema._def.defaultValue).toBe(3000);
+    expect(schema.getTypeDescription()).toBe("integer, 1-65535");
+  });
+
+  it("keeps string builders after optional()", () => {
+    const schema = e.string().optional().email();
+
+    expect(schema).toBeInstanceOf(e.StringSchema);
+    expect(schema._def.isOptional).toBe(true);
+    expect(schema.getTypeDescription()).toBe("email");
+  });
+
+  it("keeps enum values after optional() and default()", () => {
+    const schema = e
+      .enum(["debug", "info"] as const)
+      .optional()
+      .default("info");
+
+    expect(schema.values).toEqual(["debug", "info"]);
+    expect(schema._def.isOptional).toBe(false);
+    expect(schema._def.defaultValue).toBe("info");
+  });
+
+  it("keeps array separator after optional()", () => {
+    const schema = e.array(e.string()).separator(";").optional().nonEmpty();
+    const result = schema._def.coerce("a;b");
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.value).toEqual(["a", "b"]);
+    }
+  });
+
+  it("keeps duration builders after optional()", () => {
+    const schema = e.duration().optional().min("1s");
+
+    expect(schema._def.isOptional).toBe(true);
+    expect(schema._def.rules.map((r) => r.name)).toEqual(["min"]);
+  });
+});
@@ -250,6 +250,223 @@ describe("validate", () => {
     expect(result.success).toBe(true);
   });
 
+  it("merges a misspelled key with the missing variable in strict mode", () => {
+    const schema = {
+      DATABASE_URL: e.url(),
+      PORT: e.number(),
+    };
+
+    const result = validate(
+      schema,
+      { DATABSE_URL: "postgres://localhost/db", PORT: "3000" },
+      { strict: true }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      variable: "DATABASE_URL",
+      reason: "missing",
+      message: "Required variable is not set, but DATABSE_URL is",
+      suggestion: "DATABSE_URL",
+    });
+  });
+
+  it("suggests keys that differ only in case", () => {
+    const schema = {
+      API_KEY: e.string(),
+    };
+
+    const result = validate(schema, { api_key: "secret" }, { strict: "warn" });
+
+    expect(result.errors[0]?.suggestion).toBe("api_key");
+  });
+
+  it("only suggests keys sharing the prefix outside strict mode", () => {
+    const schema = {
+      PORT: e.number(),
+    };
+
+    expect(validate(schema, { PROT: "3000" }).errors[0]?.suggestion).toBe(
+      undefined
+    );
+
+    const result = validate(
+      schema,
+      { APP_PROT: "3000", PROT: "3000" },
+      { prefix: "APP_" }
+    );
+    expect(result.errors[0]?.suggestion).toBe("APP_PROT");
+  });
+
+  it("keeps the requiredWhen reason when suggesting a key", () => {
+    const schema = {
+      STORAGE: e.enum(["local", "s3"] as const),
+      S3_BUCKET: e
+        .string()
+        .requiredWhen((env) => env.STORAGE === "s3", "STORAGE is s3"),
+    };
+
+    const result = validate(
+      schema,
+      { STORAGE: "s3", S3_BUCKT: "assets" },
+      { strict: true }
+    );
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      message: "Required when STORAGE is s3, but S3_BUCKT is",
+      suggestion: "S3_BUCKT",
+      condition: "STORAGE is s3",
+    });
+  });
+
+  it("suggests swapped characters and reports unrelated keys as unknown", () => {
+    const schema = {
+      PORT: e.number(),
+    };
+
+    const result = validate(
+      schema,
+      { PROT: "3000", HOSTNAME: "localhost" },
+      { strict: true }
+    );
+
+    expect(result.errors).toHaveLength(2);
+    expect(result.errors[0]?.suggestion).toBe("PROT");
+    expect(result.errors[1]).toMatchObject({
+      variable: "HOSTNAME",
+      reason: "unknown",
+    });
+    expect(result.errors[1]?.suggestion).toBeUndefined();
+  });
+
+  it("pairs each key with only one missing variable", () => {
+    const schema = {
+      API_URL: e.url(),
+      APP_URL: e.url(),
+    };
+
+    const result = validate(
+      schema,
+      { APP_URI: "https://example.com" },
+      { strict: true }
+    );
+
+    const suggestions = result.errors.map((error) => error.suggestion);
+    expect(suggestions).toEqual([undefined, "APP_URI"]);
+  });
+
+  it("reports suggestions without the stripped prefix", () => {
+    const schema = {
+      DATABASE_URL: e.url(),
+    };
+
+    const result = validate(
+      schema,
+      { APP_DATABSE_URL: "postgres://localhost/db" },
+      { prefix: "APP_", stripPrefix: true, strict: true }
+    );
+
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]?.variable).toBe("DATABASE_URL");
+    expect(result.errors[0]?.suggestion).toBe("DATABSE_URL");
+  });
+
+  it("suggests the closest enum value", () => {
+    const schema = {
+      NODE_ENV: e.enum(["development", "production"] as const),
+    };
+
+    const result = validate(schema, { NODE_ENV: "prodution" });
+
+    expect(result.errors[0]?.reason).toBe("invalid_type");
+    expect(result.errors[0]?.suggestion).toBe("production");
+  });
+
+  it("does not suggest unrelated enum values", () => {
+    const schema = {
+      NODE_ENV: e.enum(["development", "production"] as const),
+    };
+
+    const result = validate(schema, { NODE_ENV: "staging" });
+
+    expect(result.errors[0]?.suggestion).toBeUndefined();
+  });
+
+  it("warns about weak secrets without failing", () => {
+    const schema = {
+      SESSION_SECRET: e.string().secret(),
+      API_TOKEN: e.string().secret(),
+      SIGNING_KEY: e.string().secret(),
+    };
+
+    const result = validate(schema, {
+      SESSION_SECRET: "changeme",
+      API_TOKEN: "abc123",
+      SIGNING_KEY: "7f3c9a1e5b2d8f4a6c0e",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toHaveLength(2);
+    expect(result.warnings?.[0]).toMatchObject({
+      variable: "SESSION_SECRET",
+      reason: "weak_secret",
+      message: "Secret looks like a placeholder value",
+      received: "[REDACTED]",
+      severity: "warning",
+    });
+    expect(result.warnings?.[1]?.message).toBe(
+      "Secret is shorter than 12 characters"
+    );
+  });
+
+  it("warns about values exactly on a rule's limit", () => {
+    const schema = {
+      WORKERS: e.number().between(1, 16),
+      NAME: e.string().maxLength(8),
+      RETRIES: e.number().positive(),
+      PORT: e.number().port(),
+      REGION: e.string().minLength(2),
+    };
+
+    const result = validate(schema, {
+      WORKERS: "16",
+      NAME: "frontend",
+      RETRIES: "1",
+      PORT: "65535",
+      REGION: "eu",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings?.map((warning) => warning.message)).toEqual([
+      "Only just passes: Must be at most 16",
+      "Only just passes: Must be at most 8 characters",
+    ]);
+    expect(result.warnings?.[0]?.reason).toBe("near_limit");
+  });
+
+  it("reports unknown variables as warnings in soft-strict mode", () => {
+    const schema = {
+      PORT: e.number(),
+    };
+
+    const result = validate(
+      schema,
+      { PORT: "3000", EXTRA_FLAG: "1" },
+      { strict: "warn" }
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.objectContaining({
+        variable: "EXTRA_FLAG",
+        reason: "unknown",
+        severity: "warning",
+      }),
+    ]);
+  });
+
   it("returns invalid_type for invalid JSON", () => {
     const schema = {
       CONFIG: e.json(),
@@ -299,6 +516,36 @@ describe("validateEnv", () => {
     expect(result.data?.NODE_ENV).toBe("production");
   });
 
+  it("passes warnings to onWarning and keeps them on the result", () => {
+    const onWarning = vi.fn();
+    const schema = {
+      API_TOKEN: e.string().secret(),
+    };
+
+    const result = createEnv(schema, {
+      source: { API_TOKEN: "xxxx" },
+      onError: "return",
+      onWarning,
+    });
+
+    expect(result.success).toBe(true);
+    expect(onWarning).toHaveBeenCalledWith([
+      expect.objectContaining({ variable: "API_TOKEN", reason: "weak_secret" }),
+    ]);
+    expect(result.success && result.warnings).toHaveLength(1);
+  });
+
+  it("does not call onWarning without warnings", () => {
+    const onWarning = vi.fn();
+
+    validateEnv(
+      { PORT: e.number().default(3000) },
+      { source: {}, onWarning }
+    );
+
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+
   it("handles transform chaining", () => {
     const schema = {
       NAME: e
@@ -0,0 +1,231 @@
+/**
+ * EnvProof - Vite Plugin Tests
+ * Test build-time validation with a stubbed Vite config
+ */
+
+import { describe, expect, it, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { pathToFileURL } from "node:url";
+import {
+  e,
+  EnvValidationError,
+  generateViteEnvDeclarations,
+} from "../src/index.js";
+import { envproof } from "../src/vite.js";
+import type { ViteLoadEnv, ViteResolvedConfig } from "../src/vite.js";
+
+const schema = {
+  DATABASE_URL: e.url(),
+  VITE_API_URL: e.url().description("Public API"),
+  VITE_DEBUG: e.boolean().optional(),
+};
+
+describe("generateViteEnvDeclarations", () => {
+  it("types prefixed variables on import.meta.env", () => {
+    expect(generateViteEnvDeclarations(schema)).toBe(
+      [
+        "// Generated by envproof. Do not edit; the Vite plugin regenerates it.",
+        "",
+        '/// <reference types="vite/client" />',
+        "",
+        "interface ImportMetaEnv {",
+        "  /** Public API */",
+        "  readonly VITE_API_URL: string;",
+        "  readonly VITE_DEBUG?: string | undefined;",
+        "}",
+        "",
+        "interface ImportMeta {",
+        "  readonly env: ImportMetaEnv;",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("uses custom prefixes", () => {
+    const declarations = generateViteEnvDeclarations(
+      { PUBLIC_URL: e.url(), VITE_URL: e.url() },
+      ["PUBLIC_"]
+    );
+
+    expect(declarations).toContain("readonly PUBLIC_URL: string;");
+    expect(declarations).not.toContain("VITE_URL");
+  });
+});
+
+describe("Vite plugin", () => {
+  let root: string;
+  let warnings: string[];
+  let loadEnvCalls: unknown[][];
+
+  const stubLoadEnv =
+    (env: Record<string, string>): ViteLoadEnv =>
+    (...args) => {
+      loadEnvCalls.push(args);
+      return env;
+    };
+
+  const stubConfig = (
+    overrides: Partial<ViteResolvedConfig> = {}
+  ): ViteResolvedConfig => ({
+    mode: "production",
+    root,
+    logger: { warn: (message) => warnings.push(message) },
+    ...overrides,
+  });
+
+  const validEnv = {
+    DATABASE_URL: "postgres://localhost/app",
+    VITE_API_URL: "https://api.example.com",
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "envproof-vite-"));
+    warnings = [];
+    loadEnvCalls = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("validates loadEnv output and writes typings", async () => {
+    const plugin = envproof({ schema, loadEnv: stubLoadEnv(validEnv) });
+
+    await plugin.configResolved(stubConfig());
+
+    expect(loadEnvCalls).toEqual([["production", root, ""]]);
+    const dts = fs.readFileSync(path.join(root, "vite-env.d.ts"), "utf-8");
+    expect(dts).toContain("readonly VITE_API_URL: string;");
+    expect(dts).not.toContain("DATABASE_URL");
+  });
+
+  it("fails the build with the pretty reporter", async () => {
+    const plugin = envproof({
+      schema,
+      loadEnv: stubLoadEnv({ VITE_API_URL: "not a url" }),
+    });
+
+    const error = await plugin
+      .configResolved(stubConfig())
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(EnvValidationError);
+    expect((error as EnvValidationError).message).toContain(
+      "Environment Validation Failed"
+    );
+    expect((error as EnvValidationError).errors.map((e) => e.variable)).toEqual(
+      ["DATABASE_URL", "VITE_API_URL"]
+    );
+    expect(fs.existsSync(path.join(root, "vite-env.d.ts"))).toBe(false);
+  });
+
+  it("reads env files from envDir", async () => {
+    const plugin = envproof({ schema, loadEnv: stubLoadEnv(validEnv) });
+
+    await plugin.configResolved(stubConfig({ envDir: "env", mode: "staging" }));
+
+    expect(loadEnvCalls).toEqual([["staging", path.join(root, "env"), ""]]);
+  });
+
+  it("sets Vite's envPrefix only when configured", () => {
+    expect(envproof({ schema }).config()).toBeUndefined();
+    expect(envproof({ schema, envPrefix: ["PUBLIC_"] }).config()).toEqual({
+      envPrefix: ["PUBLIC_"],
+    });
+  });
+
+  it("types the variables Vite exposes", async () => {
+    const plugin = envproof({
+      schema: { ...schema, PUBLIC_NAME: e.string().optional() },
+      loadEnv: stubLoadEnv(validEnv),
+      dts: "src/env.d.ts",
+    });
+    fs.mkdirSync(path.join(root, "src"));
+
+    await plugin.configResolved(stubConfig({ envPrefix: "PUBLIC_" }));
+
+    const dts = fs.readFileSync(path.join(root, "src/env.d.ts"), "utf-8");
+    expect(dts).toContain("readonly PUBLIC_NAME?: string | undefined;");
+    expect(dts).not.toContain("VITE_API_URL");
+  });
+
+  it("leaves hand-written typings alone", async () => {
+    fs.writeFileSync(path.join(root, "vite-env.d.ts"), "// mine\n");
+    const plugin = envproof({ schema, loadEnv: stubLoadEnv(validEnv) });
+
+    await plugin.configResolved(stubConfig());
+
+    expect(fs.readFileSync(path.join(root, "vite-env.d.ts"), "utf-8")).toBe(
+      "// mine\n"
+    );
+    expect(warnings).toEqual([
+      "envproof: File already exists: " +
+        path.join(root, "vite-env.d.ts") +
+        ". Use --force to overwrite.",
+    ]);
+  });
+
+  it("skips typings when dts is false", async () => {
+    const plugin = envproof({
+      schema,
+      loadEnv: stubLoadEnv(validEnv),
+      dts: false,
+    });
+
+    await plugin.configResolved(stubConfig());
+
+    expect(fs.existsSync(path.join(root, "vite-env.d.ts"))).toBe(false);
+  });
+
+  it("loads a schema path relative to Vite's root", async () => {
+    const srcIndexUrl = pathToFileURL(
+      path.join(process.cwd(), "src/index.js")
+    ).href;
+    fs.mkdirSync(path.join(root, "config"));
+    fs.writeFileSync(
+      path.join(root, "config", "env.mjs"),
+      `import { e } from "${srcIndexUrl}";
+export const schema = { VITE_API_URL: e.url() };`
+    );
+    const plugin = envproof({
+      schema: "config/env.mjs",
+      loadEnv: stubLoadEnv(validEnv),
+    });
+
+    await plugin.configResolved(stubConfig());
+
+    const dts = fs.readFileSync(path.join(root, "vite-env.d.ts"), "utf-8");
+    expect(dts).toContain("readonly VITE_API_URL: string;");
+  });
+
+  it("fails the build when the schema module does not import", async () => {
+    fs.writeFileSync(
+      path.join(root, "env.config.mjs"),
+      'throw new Error("boom");'
+    );
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const plugin = envproof({ loadEnv: stubLoadEnv(validEnv) });
+
+    await expect(plugin.configResolved(stubConfig())).rejects.toThrow(
+      "envproof: Failed to load schema from env.config.mjs: boom"
+    );
+    expect(errorSpy).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+
+  it("logs warnings without failing", async () => {
+    const plugin = envproof({
+      schema: { ...schema, SESSION_SECRET: e.string().secret() },
+      loadEnv: stubLoadEnv({ ...validEnv, SESSION_SECRET: "changeme" }),
+      dts: false,
+    });
+
+    await plugin.configResolved(stubConfig());
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain("SESSION_SECRET");
+  });
+});
@@ -5,6 +5,11 @@ export default defineConfig({
     globals: true,
     environment: "node",
     include: ["tests/**/*.test.ts"],
+    typecheck: {
+      enabled: true,
+      include: ["tests/**/*.test-d.ts"],
+      tsconfig: "tests/tsconfig.json",
+    },
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html", "lcov"],